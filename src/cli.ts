@@ -1,9 +1,12 @@
 #!/usr/bin/env node
 
-import { Command, Option } from 'commander'
+import { Command, InvalidArgumentError, Option } from 'commander'
 import {
   addHashToBaseline,
   getNewErrors,
+  getRatchetedErrors,
+  remapRenamedFiles,
+  getFixedErrors,
   parseTypeScriptErrors,
   getTotalErrorsCount,
   toHumanReadableText,
@@ -11,23 +14,103 @@ import {
   readBaselineErrorsFile,
   isBaselineVersionCurrent,
   getErrorSummaryMap,
+  getBaselineErrorOptions,
+  normalizeErrorSummaryPaths,
+  getIncludedErrors,
+  getErrorsOutsideStrictZones,
+  getStrictZoneErrors,
+  getExceededErrorBudgets,
+  getErrorsInChangedFiles,
+  getErrorsWithSeverity,
+  pluralize,
+  getBaselinedErrors,
+  getInvalidCompilerOutputReason,
   getBaselineFileVersion,
+  toCheckstyleOutputFormat,
+  toGitHubOutputFormat,
   toGitLabOutputFormat,
+  toJsonOutputFormat,
+  toJUnitOutputFormat,
+  toMarkdownOutputFormat,
+  getGitHubFileUrlPrefix,
+  toSarifOutputFormat,
+  toTscOutputFormat,
   CURRENT_BASELINE_VERSION,
-  ErrorFormat
+  ErrorFormat,
+  ErrorBudgets,
+  ErrorSeverity,
+  ErrorOptions,
+  ErrorSummaryMap,
+  MessageReplacement,
+  BaselineFile,
+  ParsingResult
 } from './util'
-import { resolve } from 'path'
-import { rmSync } from 'fs'
+import { getProjectConfigPath, runTypeScriptCompiler } from './compiler'
+import { addErrorLocations, getPreciseErrorChanges } from './locations'
+import { getChangedFiles, getCurrentCommit, getRenamedFiles } from './git'
+import { TscBaselineConfig, loadConfig } from './config'
+import {
+  TrendFormat,
+  appendHistorySnapshot,
+  createHistorySnapshot,
+  getHistoryFilePath,
+  readHistoryFile,
+  toTrendOutputFormat
+} from './history'
+import { StatsFormat, getBaselineStats, toStatsOutputFormat } from './stats'
+import { toHtmlReport } from './html'
+import { dirname, resolve } from 'path'
+import { rmSync, writeFileSync } from 'fs'
+
+// Distinct from the exit code for new errors so that CI can tell a broken
+// type-check apart from one that found errors
+const INVALID_COMPILER_OUTPUT_EXIT_CODE = 2
+
+// Used when there are more errors in total than the budget allows, but no
+// more new errors than allowed
+const TOTAL_ERROR_BUDGET_EXCEEDED_EXIT_CODE = 3
+
 ;(async () => {
   const program = new Command()
 
+  let fileConfig: TscBaselineConfig
+  try {
+    fileConfig = await loadConfig()
+  } catch (err: any) {
+    console.error(err.message)
+    process.exit(1)
+  }
+
+  // Only set in the configuration file
+  const severityRules = fileConfig.severity ?? {}
+  const enabledSeverities = [ErrorSeverity.ERROR, ErrorSeverity.WARNING]
+
   program
     .name('tsc-baseline')
     .description(
       'Save a baseline of TypeScript errors and compare new errors against it.Useful for type-safe feature development in TypeScript projects that have a lot of errors. This tool will filter out errors that are already in the baseline and only show new errors.'
     )
 
-  let stdin = ''
+  // Only read stdin for commands that need it. Waiting on it unconditionally
+  // would hang when nothing is ever piped in, e.g. when using --project.
+  const readStdin = (): Promise<string> =>
+    new Promise((resolve) => {
+      if (process.stdin.isTTY) {
+        resolve('')
+        return
+      }
+      let stdin = ''
+      process.stdin.on('readable', function () {
+        // @ts-ignore
+        const chunk = this.read()
+        if (chunk !== null) {
+          stdin += chunk
+        }
+      })
+      process.stdin.on('end', function () {
+        resolve(stdin)
+      })
+    })
 
   program.option(
     '-p --path <path>',
@@ -39,31 +122,262 @@ import { rmSync } from 'fs'
     'Ignores specific type error messages and only counts errors by code.'
   )
 
+  program.option(
+    '--includeMessageChain',
+    'Includes the indented continuation lines of elaborated error messages when matching errors.'
+  )
+
+  program.option(
+    '--normalizeMessages',
+    'Removes parts of error messages that differ between machines and TypeScript versions, such as absolute import paths and type literals, before matching errors.'
+  )
+
+  // Split on the last `=` since the pattern is more likely to contain one
+  const parseMessageReplacement = (
+    value: string,
+    previous: MessageReplacement[] = []
+  ): MessageReplacement[] => {
+    const separatorIndex = value.lastIndexOf('=')
+    if (separatorIndex === -1) {
+      throw new InvalidArgumentError('Expected <pattern>=<replacement>.')
+    }
+    const pattern = value.slice(0, separatorIndex)
+    try {
+      // eslint-disable-next-line no-new
+      new RegExp(pattern)
+    } catch (err: any) {
+      throw new InvalidArgumentError(err.message)
+    }
+    return previous.concat({
+      pattern,
+      replacement: value.slice(separatorIndex + 1)
+    })
+  }
+
+  const parseErrorCount = (value: string): number => {
+    const count = Number(value)
+    if (!Number.isInteger(count) || count < 0) {
+      throw new InvalidArgumentError('Expected a non-negative integer.')
+    }
+    return count
+  }
+
+  program.option(
+    '--messageReplacement <replacement>',
+    'Replaces every match of a regular expression in error messages before matching errors, given as <pattern>=<replacement>. Can be passed multiple times.',
+    parseMessageReplacement
+  )
+
+  program.option(
+    '--preciseMatching',
+    'Records the location of each error when saving so that new errors are reported even if an error with the same message was fixed.'
+  )
+
+  program.option(
+    '--rootDir <rootDir>',
+    'Directory that file paths in the baseline are relative to. Defaults to the directory of the tsconfig.json passed to --project, or the current directory.'
+  )
+
+  // CLI flags take precedence over the configuration file
   const getConfig = () => {
     const config = program.opts()
     return {
-      path: resolve(process.cwd(), config.path || '.tsc-baseline.json'),
-      ignoreMessages: config.ignoreMessages || false
+      path: resolve(
+        process.cwd(),
+        config.path || fileConfig.path || '.tsc-baseline.json'
+      ),
+      ignoreMessages:
+        config.ignoreMessages || fileConfig.ignoreMessages || false,
+      includeMessageChain:
+        config.includeMessageChain || fileConfig.includeMessageChain || false,
+      messageReplacements: (config.messageReplacement ||
+        fileConfig.messageReplacements ||
+        []) as MessageReplacement[],
+      normalizeMessages:
+        config.normalizeMessages || fileConfig.normalizeMessages || false,
+      preciseMatching:
+        config.preciseMatching || fileConfig.preciseMatching || false,
+      rootDir: config.rootDir
+        ? resolve(process.cwd(), config.rootDir)
+        : fileConfig.rootDir
     }
   }
 
-  program.command('save [message]').action((message) => {
-    if (stdin) {
-      message = stdin
-      if (message) {
-        const config = getConfig()
-        const errorOptions = {
-          ignoreMessages: config.ignoreMessages
-        }
-        writeTypeScriptErrorsToFile(
-          parseTypeScriptErrors(message, errorOptions).errorSummaryMap,
-          config.path,
-          errorOptions
+  const getDefaultRootDir = (project: string | undefined) =>
+    project
+      ? dirname(getProjectConfigPath(resolve(process.cwd(), project)))
+      : process.cwd()
+
+  const getParsingResult = async (
+    stdin: string,
+    project: string | undefined,
+    errorOptions: ErrorOptions
+  ): Promise<ParsingResult> => {
+    if (!project) {
+      return parseTypeScriptErrors(stdin, errorOptions)
+    }
+    try {
+      return await runTypeScriptCompiler(
+        resolve(process.cwd(), project),
+        errorOptions
+      )
+    } catch (err: any) {
+      // A broken project setup must not pass as a type-check without errors
+      console.error(err.message)
+      process.exit(INVALID_COMPILER_OUTPUT_EXIT_CODE)
+    }
+  }
+
+  // Exits when the baseline file is missing or from another version of
+  // tsc-baseline
+  const readCurrentBaselineFile = (filepath: string): BaselineFile => {
+    let baselineFile
+    try {
+      baselineFile = readBaselineErrorsFile(filepath)
+    } catch (err) {
+      console.error(
+        `
+  Unable to read the .tsc-baseline.json file at "${filepath}".
+  
+  Has the baseline file been properly saved with the 'save' command?
+  `
+      )
+      process.exit(1)
+    }
+    if (!isBaselineVersionCurrent(baselineFile)) {
+      const baselineFileVersion = getBaselineFileVersion(baselineFile)
+      if (baselineFileVersion < CURRENT_BASELINE_VERSION) {
+        console.error(
+          `
+The .tsc-baseline.json file at "${filepath}"
+is out of date for this version of tsc-baseline.
+
+Please update the baseline file using the 'save' command.
+`
+        )
+        process.exit(1)
+      } else {
+        console.error(
+          `
+The .tsc-baseline.json file at "${filepath}"
+is from a future version of tsc-baseline.
+
+Are your installed packages up to date?
+`
         )
-        console.log("\nSaved baseline errors to '" + config.path + "'")
+        process.exit(1)
       }
     }
-  })
+    return baselineFile
+  }
+
+  program
+    .command('save [message]')
+    .option(
+      '--project <project>',
+      'Runs the TypeScript compiler with the given tsconfig.json instead of reading errors from stdin.'
+    )
+    .option(
+      '--include <globs...>',
+      'Only baselines and checks errors in files matching the given globs.'
+    )
+    .option(
+      '--exclude <globs...>',
+      'Leaves out errors in files matching the given globs.'
+    )
+    .option(
+      '--strictZones <globs...>',
+      'Fails on any error in files matching the given globs, even if it is in the baseline.'
+    )
+    .option(
+      '--history',
+      'Appends a snapshot of the error totals to a history file next to the baseline file.'
+    )
+    .option(
+      '--allowEmptyInput',
+      'Saves an empty baseline for empty input instead of failing.'
+    )
+    .action(async (_message, cliOptions) => {
+      const options = {
+        project: fileConfig.project,
+        history: fileConfig.history,
+        allowEmptyInput: fileConfig.allowEmptyInput,
+        include: fileConfig.include,
+        exclude: fileConfig.exclude,
+        strictZones: fileConfig.strictZones,
+        ...cliOptions
+      }
+      const stdin = options.project ? '' : await readStdin()
+      const config = getConfig()
+      const errorOptions = {
+        exclude: options.exclude,
+        ignoreMessages: config.ignoreMessages,
+        include: options.include,
+        includeMessageChain: config.includeMessageChain,
+        messageReplacements: config.messageReplacements,
+        normalizeMessages: config.normalizeMessages,
+        preciseMatching: config.preciseMatching,
+        rootDir: config.rootDir ?? getDefaultRootDir(options.project),
+        strictZones: options.strictZones
+      }
+      const parsingResult = await getParsingResult(
+        stdin,
+        options.project,
+        errorOptions
+      )
+      // Saving the output of a failed type-check would wipe the baseline
+      if (!options.project) {
+        const invalidCompilerOutputReason = getInvalidCompilerOutputReason(
+          stdin,
+          { allowEmptyInput: options.allowEmptyInput }
+        )
+        if (invalidCompilerOutputReason) {
+          console.error(`\n${invalidCompilerOutputReason}\n`)
+          process.exit(INVALID_COMPILER_OUTPUT_EXIT_CODE)
+        }
+      }
+      // Errors turned off by severity rules are left out of the baseline
+      const errorSummaryMap = getErrorsWithSeverity(
+        parsingResult.errorSummaryMap,
+        severityRules,
+        enabledSeverities
+      )
+      const { specificErrorsMap } = parsingResult
+      const strictZoneErrors = getStrictZoneErrors(
+        errorSummaryMap,
+        errorOptions
+      )
+      if (strictZoneErrors.size > 0) {
+        const strictZoneErrorsCount = getTotalErrorsCount(strictZoneErrors)
+        console.error(`
+Errors are not permitted in strict zones:
+${toHumanReadableText(strictZoneErrors, specificErrorsMap, errorOptions)}
+
+Fix the ${pluralize(
+          strictZoneErrorsCount,
+          'error'
+        )} in strict zones before saving the baseline.`)
+        process.exit(1)
+      }
+      const commit = await getCurrentCommit()
+      writeTypeScriptErrorsToFile(
+        errorOptions.preciseMatching
+          ? addErrorLocations(errorSummaryMap, specificErrorsMap, errorOptions)
+          : errorSummaryMap,
+        config.path,
+        errorOptions,
+        commit
+      )
+      console.log("\nSaved baseline errors to '" + config.path + "'")
+      if (options.history) {
+        const historyFilePath = getHistoryFilePath(config.path)
+        appendHistorySnapshot(
+          historyFilePath,
+          createHistorySnapshot(errorSummaryMap, commit)
+        )
+        console.log("Added a snapshot to '" + historyFilePath + "'")
+      }
+    })
 
   program.command('add [hash]').action((hash) => {
     if (!hash) {
@@ -79,109 +393,496 @@ import { rmSync } from 'fs'
     .addOption(
       new Option(
         '--error-format [error-format]',
-        'Specifies the format for outputting errors.'
-      )
-        .default(ErrorFormat.HUMAN)
-        .choices(Object.values(ErrorFormat))
+        'Specifies the format for outputting errors. Defaults to human.'
+      ).choices(Object.values(ErrorFormat))
+    )
+    .option(
+      '--project <project>',
+      'Runs the TypeScript compiler with the given tsconfig.json instead of reading errors from stdin.'
+    )
+    .option(
+      '--include <globs...>',
+      'Only baselines and checks errors in files matching the given globs.'
+    )
+    .option(
+      '--exclude <globs...>',
+      'Leaves out errors in files matching the given globs.'
+    )
+    .option(
+      '--strictZones <globs...>',
+      'Fails on any error in files matching the given globs, even if it is in the baseline.'
+    )
+    .option(
+      '--report-file <report-file>',
+      'Writes the errors in the selected error format to a file and prints human-readable errors to the console.'
+    )
+    .option(
+      '--html <file>',
+      'Writes a self-contained HTML report of new, fixed and baselined errors to the given file.'
+    )
+    .option(
+      '--allowEmptyInput',
+      'Treats empty input as a successful type-check instead of failing.'
+    )
+    .option(
+      '--changed-since <ref>',
+      'Only fails on new errors in files changed since the current branch diverged from the given git ref.'
+    )
+    .option(
+      '--changed-lines',
+      'Only fails on new errors on lines changed since the ref given to --changed-since.'
+    )
+    .option(
+      '--maxNewErrors <count>',
+      'Only fails when there are more new errors than this. Defaults to 0.',
+      parseErrorCount
+    )
+    .option(
+      '--maxTotalErrors <count>',
+      'Fails with exit code 3 when there are more errors in total than this, even if none of them are new.',
+      parseErrorCount
+    )
+    .option(
+      '--ratchet',
+      'Removes fixed errors from the baseline file when there are no new errors.'
     )
     .option(
       '--reportUnmatchedIgnoredErrors',
       'Reports unmatched ignored errors that are in the baseline but not in the new errors.'
     )
-    .action((message, options) => {
-      if (stdin) {
-        message = stdin
-        if (message) {
-          const config = getConfig()
-          let baselineFile
-          try {
-            baselineFile = readBaselineErrorsFile(config.path)
-          } catch (err) {
-            console.error(
-              `
-  Unable to read the .tsc-baseline.json file at "${config.path}".
-  
-  Has the baseline file been properly saved with the 'save' command?
-  `
-            )
-            process.exit(1)
+    .option(
+      '--warnOnUnmatchedIgnoredErrors',
+      'Reports unmatched ignored errors as a warning without failing.'
+    )
+    .action(async (_message, cliOptions) => {
+      const options = {
+        errorFormat: fileConfig.errorFormat ?? ErrorFormat.HUMAN,
+        project: fileConfig.project,
+        include: fileConfig.include,
+        exclude: fileConfig.exclude,
+        strictZones: fileConfig.strictZones,
+        reportFile: fileConfig.reportFile,
+        maxNewErrors: fileConfig.maxNewErrors,
+        maxTotalErrors: fileConfig.maxTotalErrors,
+        allowEmptyInput: fileConfig.allowEmptyInput,
+        reportUnmatchedIgnoredErrors: fileConfig.reportUnmatchedIgnoredErrors,
+        warnOnUnmatchedIgnoredErrors: fileConfig.warnOnUnmatchedIgnoredErrors,
+        ...cliOptions
+      }
+      if (options.changedLines && !options.changedSince) {
+        console.error(
+          '\n--changed-lines can only be used with --changed-since.\n'
+        )
+        process.exit(1)
+      }
+      const stdin = options.project ? '' : await readStdin()
+      const config = getConfig()
+      const baselineFile = readCurrentBaselineFile(config.path)
+
+      const errorOptions = getBaselineErrorOptions(
+        baselineFile,
+        config.path,
+        config.rootDir
+      )
+      errorOptions.rootDir =
+        errorOptions.rootDir ?? getDefaultRootDir(options.project)
+      errorOptions.include = options.include ?? errorOptions.include
+      errorOptions.exclude = options.exclude ?? errorOptions.exclude
+      errorOptions.strictZones = options.strictZones ?? errorOptions.strictZones
+      let allOldErrorSummaries = getErrorSummaryMap(baselineFile)
+      if (!baselineFile.meta.rootDir) {
+        // Saved before paths were normalized
+        allOldErrorSummaries = normalizeErrorSummaryPaths(
+          allOldErrorSummaries,
+          errorOptions
+        )
+      }
+      if (baselineFile.meta.commit) {
+        // Renamed files would otherwise have all of their errors reported as new
+        try {
+          allOldErrorSummaries = remapRenamedFiles(
+            allOldErrorSummaries,
+            await getRenamedFiles(
+              baselineFile.meta.commit,
+              errorOptions.rootDir
+            ),
+            errorOptions
+          )
+        } catch (err) {
+          console.error(
+            `Unable to detect files renamed since commit ${baselineFile.meta.commit}. Renamed files will be reported as new errors.`
+          )
+        }
+      }
+      const inScopeErrorSummaries = getErrorsWithSeverity(
+        getIncludedErrors(allOldErrorSummaries, errorOptions),
+        severityRules,
+        enabledSeverities
+      )
+      // Baseline errors that this check doesn't look at, which ratcheting
+      // must keep as they are
+      const outOfScopeErrorSummaries = new Map(
+        Array.from(allOldErrorSummaries).filter(
+          ([key]) => !inScopeErrorSummaries.has(key)
+        )
+      )
+      const oldErrorSummaries = getErrorsOutsideStrictZones(
+        inScopeErrorSummaries,
+        errorOptions
+      )
+      const parsingResult = await getParsingResult(
+        stdin,
+        options.project,
+        errorOptions
+      )
+      if (!options.project) {
+        const invalidCompilerOutputReason = getInvalidCompilerOutputReason(
+          stdin,
+          { allowEmptyInput: options.allowEmptyInput }
+        )
+        if (invalidCompilerOutputReason) {
+          console.error(`\n${invalidCompilerOutputReason}\n`)
+          process.exit(INVALID_COMPILER_OUTPUT_EXIT_CODE)
+        }
+      }
+      const errorSummaryMap = getErrorsWithSeverity(
+        parsingResult.errorSummaryMap,
+        severityRules,
+        enabledSeverities
+      )
+      // With precise matching only the unmatched errors are listed as new
+      let {
+        newErrorSummaryMap: newErrorSummaries,
+        fixedErrorSummaryMap: fixedErrorSummaries,
+        newSpecificErrorsMap: specificErrorsMap
+      } = errorOptions.preciseMatching
+        ? getPreciseErrorChanges(
+            oldErrorSummaries,
+            errorSummaryMap,
+            parsingResult.specificErrorsMap,
+            errorOptions
+          )
+        : {
+            newErrorSummaryMap: getNewErrors(
+              oldErrorSummaries,
+              errorSummaryMap
+            ),
+            fixedErrorSummaryMap: getFixedErrors(
+              oldErrorSummaries,
+              errorSummaryMap
+            ),
+            newSpecificErrorsMap: parsingResult.specificErrorsMap
           }
-          if (!isBaselineVersionCurrent(baselineFile)) {
-            const baselineFileVersion = getBaselineFileVersion(baselineFile)
-            if (baselineFileVersion < CURRENT_BASELINE_VERSION) {
-              console.error(
-                `
-The .tsc-baseline.json file at "${config.path}"
-is out of date for this version of tsc-baseline.
+      // Computed before --changed-since narrows down the new errors, since new
+      // errors outside of the changes are not baselined either
+      const baselinedErrors = getBaselinedErrors(
+        { ...parsingResult, errorSummaryMap },
+        { errorSummaryMap: newErrorSummaries, specificErrorsMap },
+        errorOptions
+      )
+      let unchangedFilesErrorSummaries: ErrorSummaryMap = new Map()
+      if (options.changedSince) {
+        let changedFiles
+        try {
+          changedFiles = await getChangedFiles(
+            options.changedSince,
+            errorOptions.rootDir,
+            { includeLines: options.changedLines }
+          )
+        } catch (err: any) {
+          console.error(
+            `\nUnable to list the files changed since '${options.changedSince}':\n${err.message}`
+          )
+          process.exit(1)
+        }
+        const changedErrors = getErrorsInChangedFiles(
+          newErrorSummaries,
+          specificErrorsMap,
+          changedFiles,
+          errorOptions
+        )
+        unchangedFilesErrorSummaries = getNewErrors(
+          changedErrors.errorSummaryMap,
+          newErrorSummaries
+        )
+        newErrorSummaries = changedErrors.errorSummaryMap
+        specificErrorsMap = changedErrors.specificErrorsMap
+      }
+      const newErrorsCount = getTotalErrorsCount(newErrorSummaries)
+      const oldErrorsCount = getTotalErrorsCount(oldErrorSummaries)
 
-Please update the baseline file using the 'save' command.
-`
-              )
-              process.exit(1)
-            } else {
-              console.error(
-                `
-The .tsc-baseline.json file at "${config.path}"
-is from a future version of tsc-baseline.
+      const newErrorsCountMessage = `${pluralize(
+        newErrorsCount,
+        'new error'
+      )} found`
 
-Are your installed packages up to date?
-`
-              )
-              process.exit(1)
-            }
-          }
+      const fixedErrorsCount = getTotalErrorsCount(fixedErrorSummaries)
+      const netErrorsCount = newErrorsCount - fixedErrorsCount
 
-          const oldErrorSummaries = getErrorSummaryMap(baselineFile)
-          const errorOptions = {
-            ignoreMessages: baselineFile.meta.ignoreMessages
-          }
-          const { specificErrorsMap, errorSummaryMap } = parseTypeScriptErrors(
-            message,
+      let humanReadableOutput = `${
+        newErrorsCount > 0 ? '\nNew errors found:' : ''
+      }
+${toHumanReadableText(newErrorSummaries, specificErrorsMap, errorOptions)}
+
+${newErrorsCountMessage}. ${pluralize(
+        oldErrorsCount,
+        'error'
+      )} already in baseline.`
+      const strictZoneErrorsCount = getTotalErrorsCount(
+        getStrictZoneErrors(newErrorSummaries, errorOptions)
+      )
+      if (strictZoneErrorsCount > 0) {
+        humanReadableOutput += `\n${pluralize(
+          strictZoneErrorsCount,
+          'new error is',
+          'new errors are'
+        )} in strict zones, where no errors are permitted.`
+      }
+      const unchangedFilesErrorsCount = getTotalErrorsCount(
+        unchangedFilesErrorSummaries
+      )
+      if (unchangedFilesErrorsCount > 0) {
+        // Listed by file without failing, since they were likely introduced
+        // elsewhere, e.g. by a change to a shared type
+        const unchangedFilesErrorCounts = new Map<string, number>()
+        for (const error of unchangedFilesErrorSummaries.values()) {
+          unchangedFilesErrorCounts.set(
+            error.file,
+            (unchangedFilesErrorCounts.get(error.file) ?? 0) + error.count
+          )
+        }
+        humanReadableOutput += `\n${pluralize(
+          unchangedFilesErrorsCount,
+          'new error'
+        )} outside of the changes since '${
+          options.changedSince
+        }' did not fail the check:\n${Array.from(unchangedFilesErrorCounts)
+          .map(([file, count]) => `${file}: ${count}`)
+          .join('\n')}`
+      }
+      if (fixedErrorsCount > 0) {
+        humanReadableOutput += `
+
+Fixed errors:
+${toHumanReadableText(
+  fixedErrorSummaries,
+  specificErrorsMap,
+  errorOptions,
+  true
+)}
+
+${pluralize(fixedErrorsCount, 'error')} fixed.`
+      }
+      if (netErrorsCount !== 0) {
+        humanReadableOutput += `\n${netErrorsCount > 0 ? '+' : ''}${pluralize(
+          netErrorsCount,
+          'error'
+        )} vs baseline.`
+      }
+
+      const errorBudgets: ErrorBudgets = {
+        maxNewErrors: options.maxNewErrors,
+        maxNewErrorsPerCode: fileConfig.maxNewErrorsPerCode,
+        maxNewErrorsPerDirectory: fileConfig.maxNewErrorsPerDirectory,
+        maxTotalErrors: options.maxTotalErrors
+      }
+      const newWarningsCount = getTotalErrorsCount(
+        getErrorsWithSeverity(newErrorSummaries, severityRules, [
+          ErrorSeverity.WARNING
+        ])
+      )
+      if (newWarningsCount > 0) {
+        humanReadableOutput += `\n${pluralize(
+          newWarningsCount,
+          'new error is a warning',
+          'new errors are warnings'
+        )} by the severity rules and did not fail the check.`
+      }
+      const exceededErrorBudgets = getExceededErrorBudgets(
+        getErrorsWithSeverity(newErrorSummaries, severityRules, [
+          ErrorSeverity.ERROR
+        ]),
+        errorSummaryMap,
+        errorBudgets
+      )
+      const isNewErrorBudgetExceeded = exceededErrorBudgets.some(
+        (exceededErrorBudget) => exceededErrorBudget.kind === 'new'
+      )
+      // Without any budgets every new error fails, which needs no explanation
+      if (Object.values(errorBudgets).some((budget) => budget !== undefined)) {
+        for (const { count, description, limit } of exceededErrorBudgets) {
+          humanReadableOutput += `\nError budget exceeded: ${count} ${description}, the limit is ${limit}.`
+        }
+        if (newErrorsCount > 0 && !isNewErrorBudgetExceeded) {
+          humanReadableOutput += `\n${pluralize(
+            newErrorsCount,
+            'new error is',
+            'new errors are'
+          )} within the error budget.`
+        }
+      }
+
+      let output: string
+      if (options.errorFormat === ErrorFormat.CHECKSTYLE) {
+        output = toCheckstyleOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions,
+          severityRules
+        )
+      } else if (options.errorFormat === ErrorFormat.GITHUB) {
+        output = toGitHubOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions,
+          fixedErrorSummaries,
+          severityRules
+        )
+      } else if (options.errorFormat === ErrorFormat.GITLAB) {
+        output = toGitLabOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions
+        )
+      } else if (options.errorFormat === ErrorFormat.JSON) {
+        output = toJsonOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions,
+          baselineFile,
+          oldErrorSummaries,
+          errorSummaryMap,
+          fixedErrorSummaries
+        )
+      } else if (options.errorFormat === ErrorFormat.JUNIT) {
+        output = toJUnitOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions,
+          new Map(
+            Array.from(oldErrorSummaries).concat(Array.from(errorSummaryMap))
+          ),
+          fixedErrorSummaries
+        )
+      } else if (options.errorFormat === ErrorFormat.MARKDOWN) {
+        output = toMarkdownOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions,
+          fixedErrorSummaries,
+          oldErrorsCount,
+          getGitHubFileUrlPrefix(errorOptions.rootDir)
+        )
+      } else if (options.errorFormat === ErrorFormat.SARIF) {
+        output = toSarifOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions,
+          fixedErrorSummaries,
+          severityRules
+        )
+      } else if (options.errorFormat === ErrorFormat.TSC) {
+        output = toTscOutputFormat(
+          newErrorSummaries,
+          specificErrorsMap,
+          errorOptions
+        )
+      } else if (options.errorFormat === ErrorFormat.HUMAN) {
+        output = humanReadableOutput
+      } else {
+        console.error(`Invalid error format: ${options.errorFormat}`)
+        process.exit(1)
+      }
+
+      if (options.reportFile) {
+        // Keep the console readable when the report is meant for another tool
+        const reportFilePath = resolve(process.cwd(), options.reportFile)
+        writeFileSync(reportFilePath, output)
+        console.error(humanReadableOutput)
+        console.error(`\nSaved report to '${reportFilePath}'`)
+      } else {
+        console.error(output)
+      }
+      if (options.html) {
+        const htmlReportPath = resolve(process.cwd(), options.html)
+        writeFileSync(
+          htmlReportPath,
+          toHtmlReport(
+            'TypeScript errors',
+            [
+              {
+                title: 'New errors',
+                errorSummaryMap: newErrorSummaries,
+                specificErrorsMap
+              },
+              { title: 'Fixed errors', errorSummaryMap: fixedErrorSummaries },
+              { title: 'Baselined errors', ...baselinedErrors }
+            ],
             errorOptions
           )
-          const newErrorSummaries = getNewErrors(
-            oldErrorSummaries,
-            errorSummaryMap
+        )
+        console.error(`\nSaved HTML report to '${htmlReportPath}'`)
+      }
+
+      let baselineErrorSummaries = oldErrorSummaries
+      // New errors outside of the changes don't fail the check, but must not
+      // be written to the baseline either
+      if (options.ratchet && newErrorsCount + unchangedFilesErrorsCount === 0) {
+        let ratchetedErrorSummaries = getRatchetedErrors(
+          oldErrorSummaries,
+          errorSummaryMap
+        )
+        if (errorOptions.preciseMatching) {
+          // Every current error has been matched, so their locations replace
+          // the ones that were recorded when the baseline was saved
+          ratchetedErrorSummaries = addErrorLocations(
+            ratchetedErrorSummaries,
+            parsingResult.specificErrorsMap,
+            errorOptions
           )
-          const newErrorsCount = getTotalErrorsCount(newErrorSummaries)
-          const oldErrorsCount = getTotalErrorsCount(oldErrorSummaries)
-
-          const newErrorsCountMessage = `${newErrorsCount} new error${
-            newErrorsCount === 1 ? '' : 's'
-          } found`
-
-          if (options.errorFormat === ErrorFormat.GITLAB) {
-            console.error(
-              toGitLabOutputFormat(
-                newErrorSummaries,
-                specificErrorsMap,
-                errorOptions
+        }
+        const burnedDownErrorsCount =
+          oldErrorsCount - getTotalErrorsCount(ratchetedErrorSummaries)
+        if (burnedDownErrorsCount > 0) {
+          writeTypeScriptErrorsToFile(
+            new Map(
+              Array.from(ratchetedErrorSummaries).concat(
+                Array.from(outOfScopeErrorSummaries)
               )
-            )
-          } else if (options.errorFormat === ErrorFormat.HUMAN) {
-            console.error(`${newErrorsCount > 0 ? '\nNew errors found:' : ''}
-${toHumanReadableText(newErrorSummaries, specificErrorsMap, errorOptions)}
-
-${newErrorsCountMessage}. ${oldErrorsCount} error${
-              oldErrorsCount === 1 ? '' : 's'
-            } already in baseline.`)
-          } else {
-            console.error(`Invalid error format: ${options.errorFormat}`)
-            process.exit(1)
-          }
+            ),
+            config.path,
+            // The globs passed to this check only narrow it, so the baseline
+            // keeps the options it was saved with
+            {
+              ...getBaselineErrorOptions(baselineFile, config.path),
+              rootDir: errorOptions.rootDir
+            },
+            await getCurrentCommit()
+          )
+          baselineErrorSummaries = ratchetedErrorSummaries
+          console.error(`
+Ratcheted the baseline file at '${config.path}'.
+${pluralize(burnedDownErrorsCount, 'error')} burned down.`)
+        }
+      }
 
-          let unmatchedIgnoredErrorsCount = 0
-          if (options.reportUnmatchedIgnoredErrors) {
-            const unmatchedIgnoredErrors = getNewErrors(
-              errorSummaryMap,
-              oldErrorSummaries
-            )
-            unmatchedIgnoredErrorsCount = getTotalErrorsCount(
-              unmatchedIgnoredErrors
-            )
-            if (unmatchedIgnoredErrorsCount > 0) {
-              console.error(`
-Unmatched ignored errors:
+      let unmatchedIgnoredErrorsCount = 0
+      if (
+        options.reportUnmatchedIgnoredErrors ||
+        options.warnOnUnmatchedIgnoredErrors
+      ) {
+        const unmatchedIgnoredErrors =
+          baselineErrorSummaries === oldErrorSummaries
+            ? fixedErrorSummaries
+            : getFixedErrors(baselineErrorSummaries, errorSummaryMap)
+        unmatchedIgnoredErrorsCount = getTotalErrorsCount(
+          unmatchedIgnoredErrors
+        )
+        if (unmatchedIgnoredErrorsCount > 0) {
+          console.error(`
+Unmatched ignored errors${
+            options.warnOnUnmatchedIgnoredErrors ? ' (warning)' : ''
+          }:
 ${toHumanReadableText(
   unmatchedIgnoredErrors,
   specificErrorsMap,
@@ -190,15 +891,87 @@ ${toHumanReadableText(
 )}
 Count of unmatched ignored errors: ${unmatchedIgnoredErrorsCount}
 `)
-            }
-          }
-
-          if (newErrorsCount > 0 || unmatchedIgnoredErrorsCount > 0) {
-            // Exit with a failure code so new errors fail CI by default
-            process.exit(1)
-          }
         }
       }
+
+      if (
+        isNewErrorBudgetExceeded ||
+        strictZoneErrorsCount > 0 ||
+        (unmatchedIgnoredErrorsCount > 0 &&
+          !options.warnOnUnmatchedIgnoredErrors)
+      ) {
+        // Exit with a failure code so new errors fail CI by default
+        process.exit(1)
+      }
+      if (exceededErrorBudgets.length > 0) {
+        process.exit(TOTAL_ERROR_BUDGET_EXCEEDED_EXIT_CODE)
+      }
+    })
+
+  program
+    .command('trend')
+    .description(
+      'Shows how the number of errors changed over the snapshots saved with --history.'
+    )
+    .addOption(
+      new Option('--format <format>', 'Specifies the output format.')
+        .choices(Object.values(TrendFormat))
+        .default(TrendFormat.TABLE)
+    )
+    .action((options) => {
+      const historyFilePath = getHistoryFilePath(getConfig().path)
+      const snapshots = readHistoryFile(historyFilePath)
+      if (snapshots.length === 0) {
+        console.error(
+          `No snapshots found in '${historyFilePath}'. Run save with --history to record them.`
+        )
+        process.exit(1)
+      }
+      console.log(toTrendOutputFormat(snapshots, options.format))
+    })
+
+  program
+    .command('stats')
+    .description(
+      'Summarizes the errors in the baseline file to help pick which ones to fix next.'
+    )
+    .addOption(
+      new Option('--format <format>', 'Specifies the output format.')
+        .choices(Object.values(StatsFormat))
+        .default(StatsFormat.TABLE)
+    )
+    .option(
+      '--top <count>',
+      'Number of files, error codes, messages and directories to list.',
+      parseErrorCount,
+      10
+    )
+    .option(
+      '--html <file>',
+      'Also writes a self-contained HTML report of the baselined errors to the given file.'
+    )
+    .action((options) => {
+      const config = getConfig()
+      const baselineFile = readCurrentBaselineFile(config.path)
+      const errorSummaryMap = getErrorSummaryMap(baselineFile)
+      console.log(
+        toStatsOutputFormat(
+          getBaselineStats(errorSummaryMap, options.top),
+          options.format
+        )
+      )
+      if (options.html) {
+        const htmlReportPath = resolve(process.cwd(), options.html)
+        writeFileSync(
+          htmlReportPath,
+          toHtmlReport(
+            'TypeScript error baseline',
+            [{ title: 'Baselined errors', errorSummaryMap }],
+            getBaselineErrorOptions(baselineFile, config.path, config.rootDir)
+          )
+        )
+        console.error(`\nSaved HTML report to '${htmlReportPath}'`)
+      }
     })
 
   program.command('clear').action(() => {
@@ -207,24 +980,10 @@ Count of unmatched ignored errors: ${unmatchedIgnoredErrorsCount}
     console.log("Removed baseline file '" + config.path + "'")
   })
 
-  if (process.stdin.isTTY) {
-    program.parse(process.argv)
-  } else {
-    process.stdin.on('readable', function () {
-      // @ts-ignore
-      const chunk = this.read()
-      if (chunk !== null) {
-        stdin += chunk
-      }
-    })
-    process.stdin.on('end', function () {
-      program.parse(process.argv)
-    })
-  }
-
   try {
     await program.parseAsync(process.argv)
   } catch (err: any) {
     console.error(err.message)
+    process.exitCode = 1
   }
 })()
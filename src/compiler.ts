@@ -0,0 +1,94 @@
+import type ts from 'typescript'
+import { existsSync, statSync } from 'fs'
+import { join, resolve } from 'path'
+import {
+  GLOBAL_ERRORS_FILE,
+  ErrorOptions,
+  ParsingResult,
+  SpecificError,
+  getParsingResult
+} from './util'
+
+// Like `tsc --project`, accepts a directory that contains a tsconfig.json
+export const getProjectConfigPath = (projectPath: string): string => {
+  const configPath = resolve(projectPath)
+  return existsSync(configPath) && statSync(configPath).isDirectory()
+    ? join(configPath, 'tsconfig.json')
+    : configPath
+}
+
+export const getTypeScriptDiagnostics = async (
+  projectPath: string
+): Promise<SpecificError[]> => {
+  // Loaded lazily so that commands reading piped output don't pay for it
+  const { default: ts } = await import('typescript')
+
+  const configFileDiagnostics: ts.Diagnostic[] = []
+  const parsedCommandLine = ts.getParsedCommandLineOfConfigFile(
+    getProjectConfigPath(projectPath),
+    undefined,
+    {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+        configFileDiagnostics.push(diagnostic)
+      }
+    }
+  )
+
+  if (!parsedCommandLine) {
+    throw new Error(
+      ts.formatDiagnostics(configFileDiagnostics, {
+        getCanonicalFileName: (fileName) => fileName,
+        getCurrentDirectory: ts.sys.getCurrentDirectory,
+        getNewLine: () => ts.sys.newLine
+      })
+    )
+  }
+
+  const program = ts.createProgram({
+    rootNames: parsedCommandLine.fileNames,
+    options: parsedCommandLine.options,
+    projectReferences: parsedCommandLine.projectReferences,
+    configFileParsingDiagnostics:
+      ts.getConfigFileParsingDiagnostics(parsedCommandLine)
+  })
+
+  const errors: SpecificError[] = []
+
+  for (const diagnostic of ts.getPreEmitDiagnostics(program)) {
+    if (diagnostic.category !== ts.DiagnosticCategory.Error) {
+      continue
+    }
+    // Flattening produces the same indented lines that `tsc` prints
+    const [message, ...messageChain] = ts
+      .flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      .split('\n')
+    const error: SpecificError = {
+      file: GLOBAL_ERRORS_FILE,
+      code: `TS${diagnostic.code}`,
+      message,
+      line: 0,
+      column: 0,
+      ...(messageChain.length > 0 && { messageChain })
+    }
+    if (diagnostic.file && diagnostic.start !== undefined) {
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+        diagnostic.start
+      )
+      // Made relative to the root directory along with piped errors, so that
+      // baselines saved either way are interchangeable
+      error.file = diagnostic.file.fileName
+      error.line = line + 1
+      error.column = character + 1
+    }
+    errors.push(error)
+  }
+
+  return errors
+}
+
+export const runTypeScriptCompiler = async (
+  projectPath: string,
+  errorOptions: ErrorOptions
+): Promise<ParsingResult> =>
+  getParsingResult(await getTypeScriptDiagnostics(projectPath), errorOptions)
@@ -0,0 +1,285 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { basename, dirname, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import {
+  ErrorBudgets,
+  ErrorFormat,
+  ErrorSeverity,
+  MessageReplacement,
+  SeverityRules
+} from './util'
+
+// Looked up in this order in the current directory and each of its parents
+export const CONFIG_FILE_NAMES = [
+  'tsc-baseline.config.ts',
+  'tsc-baseline.config.js',
+  'tsc-baseline.config.json'
+]
+
+export const PACKAGE_JSON_CONFIG_KEY = 'tscBaseline'
+
+// Settings shared by every developer and CI job. Paths are relative to the
+// directory of the configuration file, and CLI flags take precedence.
+export interface TscBaselineConfig extends ErrorBudgets {
+  allowEmptyInput?: boolean
+  errorFormat?: ErrorFormat
+  exclude?: string[]
+  history?: boolean
+  ignoreMessages?: boolean
+  include?: string[]
+  includeMessageChain?: boolean
+  messageReplacements?: MessageReplacement[]
+  normalizeMessages?: boolean
+  path?: string
+  preciseMatching?: boolean
+  project?: string
+  reportFile?: string
+  reportUnmatchedIgnoredErrors?: boolean
+  rootDir?: string
+  severity?: SeverityRules
+  strictZones?: string[]
+  warnOnUnmatchedIgnoredErrors?: boolean
+}
+
+// Provides type checking for `tsc-baseline.config.ts` files
+export const defineConfig = (config: TscBaselineConfig): TscBaselineConfig =>
+  config
+
+type ConfigOptionValidator = {
+  description: string
+  isValid: (value: unknown) => boolean
+}
+
+const booleanOption: ConfigOptionValidator = {
+  description: 'a boolean',
+  isValid: (value) => typeof value === 'boolean'
+}
+
+const stringOption: ConfigOptionValidator = {
+  description: 'a string',
+  isValid: (value) => typeof value === 'string'
+}
+
+const stringListOption: ConfigOptionValidator = {
+  description: 'a list of strings',
+  isValid: (value) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+const countOption: ConfigOptionValidator = {
+  description: 'a non-negative integer',
+  isValid: (value) => Number.isInteger(value) && (value as number) >= 0
+}
+
+const countMapOption: ConfigOptionValidator = {
+  description: 'an object of non-negative integers',
+  isValid: (value) =>
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((count) => countOption.isValid(count))
+}
+
+const isValidRegExp = (pattern: string) => {
+  try {
+    // eslint-disable-next-line no-new
+    new RegExp(pattern)
+    return true
+  } catch (err) {
+    return false
+  }
+}
+
+const configOptionValidators: {
+  [key in keyof TscBaselineConfig]-?: ConfigOptionValidator
+} = {
+  allowEmptyInput: booleanOption,
+  errorFormat: {
+    description: `one of ${Object.values(ErrorFormat).join(', ')}`,
+    isValid: (value) =>
+      Object.values(ErrorFormat).includes(value as ErrorFormat)
+  },
+  exclude: stringListOption,
+  history: booleanOption,
+  ignoreMessages: booleanOption,
+  include: stringListOption,
+  includeMessageChain: booleanOption,
+  maxNewErrors: countOption,
+  maxNewErrorsPerCode: countMapOption,
+  maxNewErrorsPerDirectory: countMapOption,
+  maxTotalErrors: countOption,
+  messageReplacements: {
+    description:
+      'a list of { pattern, replacement } objects with valid regular expressions',
+    isValid: (value) =>
+      Array.isArray(value) &&
+      value.every(
+        (messageReplacement) =>
+          typeof messageReplacement?.pattern === 'string' &&
+          typeof messageReplacement?.replacement === 'string' &&
+          isValidRegExp(messageReplacement.pattern)
+      )
+  },
+  normalizeMessages: booleanOption,
+  path: stringOption,
+  preciseMatching: booleanOption,
+  project: stringOption,
+  reportFile: stringOption,
+  reportUnmatchedIgnoredErrors: booleanOption,
+  rootDir: stringOption,
+  severity: {
+    description: `an object of ${Object.values(ErrorSeverity).join(', ')}`,
+    isValid: (value) =>
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      Object.values(value).every((severity) =>
+        Object.values(ErrorSeverity).includes(severity)
+      )
+  },
+  strictZones: stringListOption,
+  warnOnUnmatchedIgnoredErrors: booleanOption
+}
+
+const configPathOptions = ['path', 'project', 'reportFile', 'rootDir'] as const
+
+const readPackageJsonConfig = (filepath: string): unknown =>
+  JSON.parse(readFileSync(filepath, { encoding: 'utf-8' }))[
+    PACKAGE_JSON_CONFIG_KEY
+  ]
+
+// Malformed package.json files above the starting directory are skipped, since
+// they may belong to unrelated projects
+const hasPackageJsonConfig = (filepath: string, isParentDirectory: boolean) => {
+  try {
+    return readPackageJsonConfig(filepath) !== undefined
+  } catch (err) {
+    if (isParentDirectory) {
+      return false
+    }
+    throw err
+  }
+}
+
+const findConfigFileFrom = (
+  directory: string,
+  isParentDirectory: boolean
+): string | undefined => {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filepath = resolve(directory, fileName)
+    if (existsSync(filepath)) {
+      return filepath
+    }
+  }
+  const packageJsonPath = resolve(directory, 'package.json')
+  if (
+    existsSync(packageJsonPath) &&
+    hasPackageJsonConfig(packageJsonPath, isParentDirectory)
+  ) {
+    return packageJsonPath
+  }
+  const parentDirectory = dirname(directory)
+  return parentDirectory === directory
+    ? undefined
+    : findConfigFileFrom(parentDirectory, true)
+}
+
+// Returns the path of the closest configuration file, or of the closest
+// package.json with a `tscBaseline` key
+export const findConfigFile = (directory = process.cwd()): string | undefined =>
+  findConfigFileFrom(directory, false)
+
+// Kept out of reach of the bundler, which would turn `import()` into
+// `require()` in the CommonJS build and fail on file URLs and ES modules
+// eslint-disable-next-line no-new-func
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<any>
+
+const importConfigModule = async (filepath: string): Promise<unknown> => {
+  const module = await importModule(pathToFileURL(filepath).href)
+  return module.default ?? module
+}
+
+// The transpiled file is written next to the original one so that imports in
+// the configuration file resolve the same way
+const importTypeScriptConfigModule = async (
+  filepath: string
+): Promise<unknown> => {
+  const { default: ts } = await import('typescript')
+  const { outputText } = ts.transpileModule(
+    readFileSync(filepath, { encoding: 'utf-8' }),
+    {
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2020
+      },
+      fileName: filepath
+    }
+  )
+  const transpiledFilePath = `${filepath}.${Date.now()}.mjs`
+  writeFileSync(transpiledFilePath, outputText)
+  try {
+    return await importConfigModule(transpiledFilePath)
+  } finally {
+    rmSync(transpiledFilePath)
+  }
+}
+
+const readConfigFile = (filepath: string): Promise<unknown> => {
+  if (basename(filepath) === 'package.json') {
+    return Promise.resolve(readPackageJsonConfig(filepath))
+  }
+  if (filepath.endsWith('.json')) {
+    return Promise.resolve(
+      JSON.parse(readFileSync(filepath, { encoding: 'utf-8' }))
+    )
+  }
+  if (filepath.endsWith('.ts')) {
+    return importTypeScriptConfigModule(filepath)
+  }
+  return importConfigModule(filepath)
+}
+
+const validateConfig = (
+  config: unknown,
+  filepath: string
+): TscBaselineConfig => {
+  const fail = (reason: string): never => {
+    throw new Error(
+      `Invalid tsc-baseline configuration in "${filepath}": ${reason}`
+    )
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return fail('expected an object.')
+  }
+  for (const [key, value] of Object.entries(config)) {
+    const validator = configOptionValidators[key as keyof TscBaselineConfig]
+    if (!Object.prototype.hasOwnProperty.call(configOptionValidators, key)) {
+      fail(`unknown option "${key}".`)
+    } else if (!validator.isValid(value)) {
+      fail(`expected "${key}" to be ${validator.description}.`)
+    }
+  }
+  return config as TscBaselineConfig
+}
+
+// Resolves to an empty configuration when there is no configuration file
+export const loadConfig = async (
+  directory = process.cwd()
+): Promise<TscBaselineConfig> => {
+  const filepath = findConfigFile(directory)
+  if (!filepath) {
+    return {}
+  }
+  const config = {
+    ...validateConfig(await readConfigFile(filepath), filepath)
+  }
+  for (const option of configPathOptions) {
+    const value = config[option]
+    if (value !== undefined) {
+      config[option] = resolve(dirname(filepath), value)
+    }
+  }
+  return config
+}
@@ -0,0 +1,133 @@
+import { execFile } from 'child_process'
+import { join } from 'path'
+import { promisify } from 'util'
+import { ChangedFiles, ChangedLineRange, normalizeFilePath } from './util'
+
+const execFileAsync = promisify(execFile)
+
+const git = async (args: string[]) => {
+  const { stdout } = await execFileAsync('git', args, {
+    maxBuffer: 64 * 1024 * 1024
+  })
+  return stdout
+}
+
+// Resolves to undefined outside of a git repository or before the first commit
+export const getCurrentCommit = async (): Promise<string | undefined> => {
+  try {
+    return (await git(['rev-parse', 'HEAD'])).trim()
+  } catch (err) {
+    return undefined
+  }
+}
+
+// Git reports paths relative to the repository root, so they are made
+// relative to the root directory of the baseline
+const getReportedFilePathResolver = async (rootDir: string) => {
+  const repositoryRoot = (await git(['rev-parse', '--show-toplevel'])).trim()
+  return (file: string) =>
+    normalizeFilePath(join(repositoryRoot, file), rootDir)
+}
+
+// Maps the old path of every file renamed between the commit and HEAD to its
+// new path
+export const getRenamedFiles = async (
+  commit: string,
+  rootDir = process.cwd()
+): Promise<Map<string, string>> => {
+  const toReportedFilePath = await getReportedFilePathResolver(rootDir)
+
+  // With -z each entry is the status followed by the old and the new path,
+  // all separated by NUL characters so that paths don't need unquoting
+  const fields = (
+    await git([
+      'diff',
+      '--find-renames',
+      '--diff-filter=R',
+      '--name-status',
+      '-z',
+      commit,
+      'HEAD'
+    ])
+  ).split('\0')
+
+  const renamedFiles = new Map<string, string>()
+  for (let index = 0; index + 2 < fields.length; index += 3) {
+    renamedFiles.set(
+      toReportedFilePath(fields[index + 1]),
+      toReportedFilePath(fields[index + 2])
+    )
+  }
+  return renamedFiles
+}
+
+const diffFilePattern = /^\+\+\+ (?:"?b\/(.+?)"?|\/dev\/null)$/
+const diffHunkPattern = /^@@ -\S+ \+(\d+)(?:,(\d+))? @@/
+
+// Lists the files changed since the point where the current branch diverged
+// from the ref, including uncommitted and untracked files. With `includeLines`
+// the changed line ranges are listed too, otherwise every line of a changed
+// file counts as changed.
+export const getChangedFiles = async (
+  ref: string,
+  rootDir = process.cwd(),
+  { includeLines = false }: { includeLines?: boolean } = {}
+): Promise<ChangedFiles> => {
+  const toReportedFilePath = await getReportedFilePathResolver(rootDir)
+  const mergeBase = (await git(['merge-base', ref, 'HEAD'])).trim()
+  const changedFiles: ChangedFiles = new Map()
+
+  if (includeLines) {
+    const diff = await git([
+      '-c',
+      'core.quotePath=false',
+      'diff',
+      '--unified=0',
+      '--no-color',
+      '--no-ext-diff',
+      mergeBase
+    ])
+    let lineRanges: ChangedLineRange[] | undefined
+    for (const line of diff.split('\n')) {
+      const fileMatch = line.match(diffFilePattern)
+      const hunkMatch = line.match(diffHunkPattern)
+      if (fileMatch) {
+        // The new path of deleted files is /dev/null
+        lineRanges = undefined
+        if (fileMatch[1]) {
+          lineRanges = []
+          changedFiles.set(toReportedFilePath(fileMatch[1]), lineRanges)
+        }
+      } else if (hunkMatch && lineRanges) {
+        const start = parseInt(hunkMatch[1])
+        const count = hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2])
+        // Hunks that only remove lines have nothing to report errors on
+        if (count > 0) {
+          lineRanges.push({ start, end: start + count - 1 })
+        }
+      }
+    }
+  } else {
+    const files = (await git(['diff', '--name-only', '-z', mergeBase])).split(
+      '\0'
+    )
+    for (const file of files.filter(Boolean)) {
+      changedFiles.set(toReportedFilePath(file), undefined)
+    }
+  }
+
+  const untrackedFiles = (
+    await git([
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+      '--full-name',
+      '-z'
+    ])
+  ).split('\0')
+  for (const file of untrackedFiles.filter(Boolean)) {
+    changedFiles.set(toReportedFilePath(file), undefined)
+  }
+
+  return changedFiles
+}
@@ -0,0 +1,221 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs'
+import { posix } from 'path'
+import { toHtmlPage } from './html'
+import {
+  ErrorSummaryMap,
+  GLOBAL_ERRORS_FILE,
+  escapeXml,
+  getTotalErrorsCount
+} from './util'
+
+export interface HistorySnapshot {
+  commit?: string
+  errorsByCode: { [code: string]: number }
+  errorsByDirectory: { [directory: string]: number }
+  timestamp: string
+  totalErrors: number
+}
+
+export enum TrendFormat {
+  CSV = 'csv',
+  HTML = 'html',
+  TABLE = 'table'
+}
+
+// Snapshots are appended one per line, so that the history file produces
+// small diffs and merges cleanly, e.g. `.tsc-baseline.history.jsonl`
+export const getHistoryFilePath = (baselineFilePath: string): string =>
+  baselineFilePath.replace(/(\.json)?$/, '.history.jsonl')
+
+const getErrorDirectory = (file: string) =>
+  file === GLOBAL_ERRORS_FILE ? GLOBAL_ERRORS_FILE : posix.dirname(file)
+
+const addCount = (
+  counts: { [key: string]: number },
+  key: string,
+  count: number
+) => {
+  counts[key] = (counts[key] ?? 0) + count
+}
+
+export const createHistorySnapshot = (
+  errorSummaryMap: ErrorSummaryMap,
+  commit?: string,
+  date = new Date()
+): HistorySnapshot => {
+  const errorsByCode: { [code: string]: number } = {}
+  const errorsByDirectory: { [directory: string]: number } = {}
+  for (const error of errorSummaryMap.values()) {
+    addCount(errorsByCode, error.code, error.count)
+    addCount(errorsByDirectory, getErrorDirectory(error.file), error.count)
+  }
+  return {
+    timestamp: date.toISOString(),
+    ...(commit && { commit }),
+    totalErrors: getTotalErrorsCount(errorSummaryMap),
+    errorsByCode,
+    errorsByDirectory
+  }
+}
+
+export const appendHistorySnapshot = (
+  filepath: string,
+  snapshot: HistorySnapshot
+): void => {
+  appendFileSync(filepath, JSON.stringify(snapshot) + '\n')
+}
+
+// Resolves to no snapshots when the history file doesn't exist yet
+export const readHistoryFile = (filepath: string): HistorySnapshot[] => {
+  if (!existsSync(filepath)) {
+    return []
+  }
+  return readFileSync(filepath, { encoding: 'utf-8' })
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line))
+}
+
+const formatTimestamp = (timestamp: string) =>
+  timestamp.slice(0, 16).replace('T', ' ')
+
+const formatCommit = (commit: string | undefined) =>
+  commit ? commit.slice(0, 7) : '-'
+
+const formatChange = (snapshots: HistorySnapshot[], index: number) => {
+  if (index === 0) {
+    return '-'
+  }
+  const change = snapshots[index].totalErrors - snapshots[index - 1].totalErrors
+  return change > 0 ? `+${change}` : `${change}`
+}
+
+const getTrendRows = (snapshots: HistorySnapshot[]) =>
+  snapshots.map((snapshot, index) => [
+    formatTimestamp(snapshot.timestamp),
+    formatCommit(snapshot.commit),
+    `${snapshot.totalErrors}`,
+    formatChange(snapshots, index)
+  ])
+
+const trendHeader = ['Date', 'Commit', 'Errors', 'Change']
+
+export const toTrendTable = (snapshots: HistorySnapshot[]): string => {
+  const rows = [trendHeader].concat(getTrendRows(snapshots))
+  const widths = trendHeader.map((_heading, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  )
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          // Text columns are aligned left and numbers right
+          column < 2
+            ? cell.padEnd(widths[column])
+            : cell.padStart(widths[column])
+        )
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n')
+}
+
+// Has a column per error code so that a spreadsheet can chart any of them
+export const toTrendCsv = (snapshots: HistorySnapshot[]): string => {
+  const codes = Array.from(
+    new Set(
+      snapshots.reduce<string[]>(
+        (allCodes, snapshot) =>
+          allCodes.concat(Object.keys(snapshot.errorsByCode)),
+        []
+      )
+    )
+  ).sort()
+  return [['timestamp', 'commit', 'totalErrors'].concat(codes).join(',')]
+    .concat(
+      snapshots.map((snapshot) =>
+        [snapshot.timestamp, snapshot.commit ?? '', `${snapshot.totalErrors}`]
+          .concat(codes.map((code) => `${snapshot.errorsByCode[code] ?? 0}`))
+          .join(',')
+      )
+    )
+    .join('\n')
+}
+
+const CHART_WIDTH = 720
+const CHART_HEIGHT = 240
+const CHART_PADDING = 32
+
+const toTrendChart = (snapshots: HistorySnapshot[]) => {
+  const maxErrors = Math.max(1, ...snapshots.map((s) => s.totalErrors))
+  const points = snapshots.map((snapshot, index) => {
+    const x =
+      CHART_PADDING +
+      (snapshots.length === 1
+        ? 0
+        : (index / (snapshots.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING))
+    const y =
+      CHART_HEIGHT -
+      CHART_PADDING -
+      (snapshot.totalErrors / maxErrors) * (CHART_HEIGHT - 2 * CHART_PADDING)
+    return { x: x.toFixed(1), y: y.toFixed(1), snapshot }
+  })
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="Errors over time">
+<line class="axis" x1="${CHART_PADDING}" y1="${
+    CHART_HEIGHT - CHART_PADDING
+  }" x2="${CHART_WIDTH - CHART_PADDING}" y2="${CHART_HEIGHT - CHART_PADDING}"/>
+<text x="4" y="${CHART_PADDING}">${maxErrors}</text>
+<text x="4" y="${CHART_HEIGHT - CHART_PADDING}">0</text>
+<polyline points="${points.map(({ x, y }) => `${x},${y}`).join(' ')}"/>
+${points
+  .map(
+    ({ x, y, snapshot }) =>
+      `<circle cx="${x}" cy="${y}" r="3"><title>${escapeXml(
+        `${formatTimestamp(snapshot.timestamp)}: ${snapshot.totalErrors}`
+      )}</title></circle>`
+  )
+  .join('\n')}
+</svg>`
+}
+
+export const toTrendHtml = (snapshots: HistorySnapshot[]): string =>
+  toHtmlPage({
+    title: 'TypeScript error trend',
+    style: `svg { max-width: 720px; width: 100%; }
+svg .axis { stroke: #d0d7de; }
+svg polyline { fill: none; stroke: #0969da; stroke-width: 2; }
+svg circle { fill: #0969da; }
+svg text { font-size: 12px; fill: #656d76; }
+`,
+    body: `${
+      snapshots.length > 0
+        ? toTrendChart(snapshots)
+        : '<p>No snapshots recorded yet.</p>'
+    }
+<table>
+<thead><tr>${trendHeader
+      .map((heading) => `<th>${heading}</th>`)
+      .join('')}</tr></thead>
+<tbody>
+${getTrendRows(snapshots)
+  .map(
+    (row) =>
+      `<tr>${row.map((cell) => `<td>${escapeXml(cell)}</td>`).join('')}</tr>`
+  )
+  .join('\n')}
+</tbody>
+</table>`
+  })
+
+export const toTrendOutputFormat = (
+  snapshots: HistorySnapshot[],
+  format: TrendFormat
+): string => {
+  if (format === TrendFormat.CSV) {
+    return toTrendCsv(snapshots)
+  }
+  if (format === TrendFormat.HTML) {
+    return toTrendHtml(snapshots)
+  }
+  return toTrendTable(snapshots)
+}
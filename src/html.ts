@@ -0,0 +1,207 @@
+import { SourceReader, createSourceReader } from './locations'
+import {
+  ErrorOptions,
+  ErrorSummary,
+  ErrorSummaryMap,
+  SpecificError,
+  SpecificErrorsMap,
+  escapeXml,
+  formatErrorLocation,
+  getSpecificErrorsMatchingSummary,
+  getTotalErrorsCount,
+  isGlobalError,
+  pluralize
+} from './util'
+
+// Number of lines above and below an error that are shown with it
+const SNIPPET_LINES = 2
+
+export interface HtmlPage {
+  body: string
+  // Added to the styles shared by all pages
+  style?: string
+  title: string
+}
+
+export interface HtmlReportSection {
+  errorSummaryMap: ErrorSummaryMap
+  // Source snippets are shown for the locations of errors found in here
+  specificErrorsMap?: SpecificErrorsMap
+  title: string
+}
+
+// A single page without external resources, so that it can be shared as is
+export const toHtmlPage = ({ body, style = '', title }: HtmlPage): string =>
+  `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border-bottom: 1px solid #d0d7de; padding: 0.25rem 0.75rem; text-align: left; vertical-align: top; }
+${style}</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+${body}
+</body>
+</html>
+`
+
+const toSnippet = (error: SpecificError, readSource: SourceReader) => {
+  const lines = isGlobalError(error) ? undefined : readSource(error.file)
+  if (!lines) {
+    return `<figure><figcaption>${escapeXml(
+      formatErrorLocation(error)
+    )}</figcaption></figure>`
+  }
+  const start = Math.max(1, error.line - SNIPPET_LINES)
+  const end = Math.min(lines.length, error.line + SNIPPET_LINES)
+  const lineNumberWidth = `${end}`.length
+  const snippetLines = lines.slice(start - 1, end).map((line, index) => {
+    const lineNumber = start + index
+    const text = `${`${lineNumber}`.padStart(lineNumberWidth)} | ${line}`
+    return lineNumber === error.line
+      ? `<mark>${escapeXml(text)}</mark>`
+      : escapeXml(text)
+  })
+  return `<figure><figcaption>${escapeXml(
+    formatErrorLocation(error)
+  )}</figcaption><pre>${snippetLines.join('\n')}</pre></figure>`
+}
+
+const toErrorRows = (
+  error: ErrorSummary,
+  section: HtmlReportSection,
+  errorOptions: ErrorOptions,
+  readSource: SourceReader
+) => {
+  const filterText = escapeXml(
+    [error.file, error.code, error.message ?? ''].join(' ').toLowerCase()
+  )
+  const specificErrors = section.specificErrorsMap
+    ? getSpecificErrorsMatchingSummary(
+        error,
+        section.specificErrorsMap,
+        errorOptions
+      )
+    : []
+  const rows = [
+    `<tr data-filter="${filterText}"><td>${escapeXml(
+      error.code
+    )}</td><td>${escapeXml(error.message ?? '')}</td><td class="count">${
+      error.count
+    }</td></tr>`
+  ]
+  if (specificErrors.length > 0) {
+    rows.push(
+      `<tr class="snippets" data-filter="${filterText}"><td colspan="3">${specificErrors
+        .map((specificError) => toSnippet(specificError, readSource))
+        .join('')}</td></tr>`
+    )
+  }
+  return rows
+}
+
+// One table body per file, with the errors sorted by code
+const toSectionTable = (
+  section: HtmlReportSection,
+  errorOptions: ErrorOptions,
+  readSource: SourceReader
+) => {
+  const errorsByFile = new Map<string, ErrorSummary[]>()
+  for (const error of section.errorSummaryMap.values()) {
+    errorsByFile.set(
+      error.file,
+      (errorsByFile.get(error.file) ?? []).concat(error)
+    )
+  }
+  const fileGroups = Array.from(errorsByFile)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([file, errors]) =>
+      [
+        '<tbody>',
+        `<tr class="file"><th colspan="3">${escapeXml(file)} (${pluralize(
+          errors.reduce((sum, error) => sum + error.count, 0),
+          'error'
+        )})</th></tr>`
+      ]
+        .concat(
+          errors
+            .slice()
+            .sort((a, b) => a.code.localeCompare(b.code))
+            .reduce<string[]>(
+              (rows, error) =>
+                rows.concat(
+                  toErrorRows(error, section, errorOptions, readSource)
+                ),
+              []
+            )
+        )
+        .concat('</tbody>')
+        .join('\n')
+    )
+  return `<table>
+<thead><tr><th>Code</th><th>Message</th><th class="count">Errors</th></tr></thead>
+${fileGroups.join('\n')}
+</table>`
+}
+
+const filterScript = `
+const filter = document.getElementById('filter')
+filter.addEventListener('input', () => {
+  const query = filter.value.trim().toLowerCase()
+  for (const group of document.querySelectorAll('tbody')) {
+    let isVisible = false
+    for (const row of group.querySelectorAll('tr[data-filter]')) {
+      row.hidden = !row.dataset.filter.includes(query)
+      isVisible = isVisible || !row.hidden
+    }
+    group.hidden = !isVisible
+  }
+})
+`
+
+// Source snippets are read from disk relative to the root directory
+export const toHtmlReport = (
+  title: string,
+  sections: HtmlReportSection[],
+  errorOptions: ErrorOptions
+): string => {
+  const readSource = createSourceReader(errorOptions.rootDir)
+  return toHtmlPage({
+    title,
+    style: `input { font: inherit; padding: 0.25rem 0.5rem; width: 24rem; max-width: 100%; }
+table { margin-bottom: 2rem; width: 100%; }
+tr.file th { background: #f6f8fa; font-family: ui-monospace, monospace; }
+.count { text-align: right; }
+figure { margin: 0.5rem 0; }
+figcaption { color: #656d76; font-family: ui-monospace, monospace; font-size: 0.85rem; }
+pre { background: #f6f8fa; margin: 0.25rem 0; overflow-x: auto; padding: 0.5rem; }
+mark { background: #ffebe9; }
+`,
+    body: `<p>${sections
+      .map(
+        ({ errorSummaryMap, title: sectionTitle }) =>
+          `${escapeXml(sectionTitle)}: ${getTotalErrorsCount(errorSummaryMap)}`
+      )
+      .join(' &middot; ')}</p>
+<input type="search" id="filter" placeholder="Filter by file, code or message" aria-label="Filter errors">
+${sections
+  .map(
+    (section) =>
+      `<section>
+<h2>${escapeXml(section.title)}</h2>
+${
+  section.errorSummaryMap.size > 0
+    ? toSectionTable(section, errorOptions, readSource)
+    : '<p>None.</p>'
+}
+</section>`
+  )
+  .join('\n')}
+<script>${filterScript}</script>`
+  })
+}
@@ -1 +1,7 @@
 export * from './util'
+export * from './compiler'
+export * from './locations'
+export * from './config'
+export * from './history'
+export * from './stats'
+export * from './html'
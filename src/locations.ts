@@ -0,0 +1,226 @@
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import objectHash from 'object-hash'
+import {
+  ErrorLocation,
+  ErrorOptions,
+  ErrorSummary,
+  ErrorSummaryMap,
+  SpecificError,
+  SpecificErrorsMap,
+  getSpecificErrorsMatchingSummary,
+  isGlobalError
+} from './util'
+
+// Number of lines above and below an error that make up its context
+const CONTEXT_LINES = 2
+
+export interface PreciseErrorChanges {
+  fixedErrorSummaryMap: ErrorSummaryMap
+  newErrorSummaryMap: ErrorSummaryMap
+  // Only the errors that couldn't be matched to a baseline location
+  newSpecificErrorsMap: SpecificErrorsMap
+}
+
+export type SourceReader = (file: string) => string[] | undefined
+
+// Source files are read at most once, and missing files produce empty
+// fingerprints instead of failing
+export const createSourceReader = (rootDir = process.cwd()): SourceReader => {
+  const sources = new Map<string, string[] | undefined>()
+  return (file) => {
+    if (!sources.has(file)) {
+      let lines: string[] | undefined
+      try {
+        lines = readFileSync(resolve(rootDir, file), {
+          encoding: 'utf-8'
+        }).split(/\r?\n/)
+      } catch (err) {
+        lines = undefined
+      }
+      sources.set(file, lines)
+    }
+    return sources.get(file)
+  }
+}
+
+// Whitespace is collapsed so that reformatting code doesn't change the hash
+const getFingerprint = (lines: string[]) =>
+  objectHash(lines.map((line) => line.trim().replace(/\s+/g, ' '))).slice(0, 16)
+
+const getErrorLocation = (
+  error: SpecificError,
+  readSource: SourceReader
+): ErrorLocation => {
+  const lines = isGlobalError(error) ? undefined : readSource(error.file)
+  const index = error.line - 1
+  return {
+    line: error.line,
+    column: error.column,
+    fingerprint: lines ? getFingerprint([lines[index] ?? '']) : '',
+    contextFingerprint: lines
+      ? getFingerprint(
+          lines
+            .slice(Math.max(0, index - CONTEXT_LINES), index)
+            .concat(lines.slice(index + 1, index + 1 + CONTEXT_LINES))
+        )
+      : ''
+  }
+}
+
+// Records where each error occurs so that `check` can tell a moved error
+// apart from a fixed error and a new one with the same message
+export const addErrorLocations = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorsMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions
+): ErrorSummaryMap => {
+  const readSource = createSourceReader(errorOptions.rootDir)
+  const result = new Map<string, ErrorSummary>()
+
+  for (const [key, error] of errorSummaryMap) {
+    result.set(key, {
+      ...error,
+      locations: getSpecificErrorsMatchingSummary(
+        error,
+        specificErrorsMap,
+        errorOptions
+      ).map((specificError) => getErrorLocation(specificError, readSource))
+    })
+  }
+
+  return result
+}
+
+const locationMatchers = [
+  // The error line and the code around it are unchanged
+  (baseline: ErrorLocation, current: ErrorLocation) =>
+    baseline.fingerprint === current.fingerprint &&
+    baseline.contextFingerprint === current.contextFingerprint,
+  // Only the error line is unchanged, e.g. a neighbouring line was edited
+  (baseline: ErrorLocation, current: ErrorLocation) =>
+    baseline.fingerprint === current.fingerprint
+]
+
+// Pairs current errors with baseline locations, preferring the closest line
+// when the same code appears more than once. Line numbers themselves are only
+// used as a tie-breaker so that errors keep matching when code shifts.
+const matchErrorLocations = (
+  baselineLocations: ErrorLocation[],
+  currentLocations: ErrorLocation[]
+) => {
+  const unmatchedBaselineLocations = baselineLocations.slice()
+  let unmatchedCurrentIndexes = currentLocations.map(
+    (_location, index) => index
+  )
+
+  for (const isMatch of locationMatchers) {
+    unmatchedCurrentIndexes = unmatchedCurrentIndexes.filter((index) => {
+      const current = currentLocations[index]
+      let closestIndex = -1
+      unmatchedBaselineLocations.forEach((baseline, baselineIndex) => {
+        if (
+          isMatch(baseline, current) &&
+          (closestIndex === -1 ||
+            Math.abs(baseline.line - current.line) <
+              Math.abs(
+                unmatchedBaselineLocations[closestIndex].line - current.line
+              ))
+        ) {
+          closestIndex = baselineIndex
+        }
+      })
+      if (closestIndex === -1) {
+        return true
+      }
+      unmatchedBaselineLocations.splice(closestIndex, 1)
+      return false
+    })
+  }
+
+  return {
+    unmatchedBaselineCount: unmatchedBaselineLocations.length,
+    unmatchedCurrentIndexes
+  }
+}
+
+const withoutLocations = ({
+  locations: _locations,
+  ...error
+}: ErrorSummary): ErrorSummary => error
+
+// The precise counterpart of `getNewErrors` and `getFixedErrors`. Baseline
+// errors without recorded locations, e.g. ones added by hash, are still
+// compared by count.
+export const getPreciseErrorChanges = (
+  oldErrors: ErrorSummaryMap,
+  newErrors: ErrorSummaryMap,
+  specificErrorsMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions
+): PreciseErrorChanges => {
+  const readSource = createSourceReader(errorOptions.rootDir)
+  const newErrorSummaryMap = new Map<string, ErrorSummary>()
+  const fixedErrorSummaryMap = new Map<string, ErrorSummary>()
+  const newSpecificErrorsMap: SpecificErrorsMap = new Map()
+  const unmatchedBaselineCounts = new Map<string, number>()
+
+  const addNewErrors = (
+    key: string,
+    error: ErrorSummary,
+    specificErrors: SpecificError[]
+  ) => {
+    if (specificErrors.length === 0) {
+      return
+    }
+    newErrorSummaryMap.set(key, { ...error, count: specificErrors.length })
+    for (const specificError of specificErrors) {
+      newSpecificErrorsMap.set(
+        specificError.file,
+        (newSpecificErrorsMap.get(specificError.file) ?? []).concat(
+          specificError
+        )
+      )
+    }
+  }
+
+  for (const [key, error] of newErrors) {
+    const oldError = oldErrors.get(key)
+    const specificErrors = getSpecificErrorsMatchingSummary(
+      error,
+      specificErrorsMap,
+      errorOptions
+    )
+    if (!oldError) {
+      addNewErrors(key, error, specificErrors)
+    } else if (!oldError.locations) {
+      addNewErrors(key, error, specificErrors.slice(oldError.count))
+      unmatchedBaselineCounts.set(
+        key,
+        Math.max(0, oldError.count - error.count)
+      )
+    } else {
+      const { unmatchedBaselineCount, unmatchedCurrentIndexes } =
+        matchErrorLocations(
+          oldError.locations,
+          specificErrors.map((specificError) =>
+            getErrorLocation(specificError, readSource)
+          )
+        )
+      addNewErrors(
+        key,
+        error,
+        unmatchedCurrentIndexes.map((index) => specificErrors[index])
+      )
+      unmatchedBaselineCounts.set(key, unmatchedBaselineCount)
+    }
+  }
+
+  for (const [key, oldError] of oldErrors) {
+    const count = unmatchedBaselineCounts.get(key) ?? oldError.count
+    if (count > 0) {
+      fixedErrorSummaryMap.set(key, { ...withoutLocations(oldError), count })
+    }
+  }
+
+  return { newErrorSummaryMap, fixedErrorSummaryMap, newSpecificErrorsMap }
+}
@@ -0,0 +1,142 @@
+import {
+  ErrorSummaryMap,
+  GLOBAL_ERRORS_FILE,
+  escapeMarkdownTableCell,
+  getTotalErrorsCount,
+  pluralize
+} from './util'
+
+export enum StatsFormat {
+  JSON = 'json',
+  MARKDOWN = 'markdown',
+  TABLE = 'table'
+}
+
+export interface StatsEntry {
+  count: number
+  name: string
+}
+
+export interface BaselineStats {
+  codes: StatsEntry[]
+  // Every directory counts the errors of all the files below it
+  directories: StatsEntry[]
+  files: StatsEntry[]
+  // Empty when messages are ignored
+  messages: StatsEntry[]
+  totalErrors: number
+  totalFiles: number
+}
+
+const DEFAULT_TOP_COUNT = 10
+
+const getParentDirectories = (file: string) => {
+  if (file === GLOBAL_ERRORS_FILE) {
+    return []
+  }
+  const segments = file.split('/').slice(0, -1)
+  return segments.map((_segment, index) =>
+    segments.slice(0, index + 1).join('/')
+  )
+}
+
+// Most errors first, ties sorted by name so that the output is stable
+const getTopEntries = (counts: Map<string, number>, top: number) =>
+  Array.from(counts)
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, top)
+
+export const getBaselineStats = (
+  errorSummaryMap: ErrorSummaryMap,
+  top = DEFAULT_TOP_COUNT
+): BaselineStats => {
+  const codes = new Map<string, number>()
+  const directories = new Map<string, number>()
+  const files = new Map<string, number>()
+  const messages = new Map<string, number>()
+  const addCount = (counts: Map<string, number>, name: string, count: number) =>
+    counts.set(name, (counts.get(name) ?? 0) + count)
+
+  for (const error of errorSummaryMap.values()) {
+    addCount(codes, error.code, error.count)
+    addCount(files, error.file, error.count)
+    if (error.message) {
+      addCount(messages, `${error.code}: ${error.message}`, error.count)
+    }
+    for (const directory of getParentDirectories(error.file)) {
+      addCount(directories, directory, error.count)
+    }
+  }
+
+  return {
+    totalErrors: getTotalErrorsCount(errorSummaryMap),
+    totalFiles: files.size,
+    files: getTopEntries(files, top),
+    codes: getTopEntries(codes, top),
+    messages: getTopEntries(messages, top),
+    directories: getTopEntries(directories, top)
+  }
+}
+
+const getStatsSections = (stats: BaselineStats) =>
+  [
+    { title: 'Files', heading: 'File', entries: stats.files },
+    { title: 'Error codes', heading: 'Code', entries: stats.codes },
+    { title: 'Messages', heading: 'Message', entries: stats.messages },
+    { title: 'Directories', heading: 'Directory', entries: stats.directories }
+  ].filter(({ entries }) => entries.length > 0)
+
+const getStatsTotal = (stats: BaselineStats) =>
+  `${pluralize(stats.totalErrors, 'error')} in ${pluralize(
+    stats.totalFiles,
+    'file'
+  )}.`
+
+export const toStatsTable = (stats: BaselineStats): string =>
+  [getStatsTotal(stats)]
+    .concat(
+      getStatsSections(stats).map(({ title, entries }) => {
+        const rows = [[title, 'Errors']].concat(
+          entries.map(({ name, count }) => [name, `${count}`])
+        )
+        const nameWidth = Math.max(...rows.map(([name]) => name.length))
+        const countWidth = Math.max(...rows.map(([, count]) => count.length))
+        return rows
+          .map(
+            ([name, count]) =>
+              `${name.padEnd(nameWidth)}  ${count.padStart(countWidth)}`
+          )
+          .join('\n')
+      })
+    )
+    .join('\n\n')
+
+export const toStatsMarkdown = (stats: BaselineStats): string =>
+  ['## TypeScript error baseline', getStatsTotal(stats)]
+    .concat(
+      getStatsSections(stats).map(({ title, heading, entries }) =>
+        [`### ${title}`, '', `| ${heading} | Errors |`, '| --- | ---: |']
+          .concat(
+            entries.map(
+              ({ name, count }) =>
+                `| ${escapeMarkdownTableCell(name)} | ${count} |`
+            )
+          )
+          .join('\n')
+      )
+    )
+    .join('\n\n')
+
+export const toStatsOutputFormat = (
+  stats: BaselineStats,
+  format: StatsFormat
+): string => {
+  if (format === StatsFormat.JSON) {
+    return JSON.stringify(stats, null, 2)
+  }
+  if (format === StatsFormat.MARKDOWN) {
+    return toStatsMarkdown(stats)
+  }
+  return toStatsTable(stats)
+}
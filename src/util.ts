@@ -1,12 +1,31 @@
 import { readFileSync, writeFileSync } from 'fs'
+import { dirname, relative, resolve, sep } from 'path'
 import objectHash from 'object-hash'
 
 export const CURRENT_BASELINE_VERSION = 1
 
+// Bumped whenever the shape of the `json` error format changes
+export const JSON_OUTPUT_FORMAT_VERSION = 1
+
+// Errors without a file location, such as missing type definitions, are
+// grouped under this file name
+export const GLOBAL_ERRORS_FILE = '<global>'
+
+export interface ErrorLocation {
+  column: number
+  // Hash of the lines around the error, excluding the line itself
+  contextFingerprint: string
+  // Hash of the line the error is reported on
+  fingerprint: string
+  line: number
+}
+
 export interface ErrorSummary {
   code: string
   count: number
   file: string
+  // Only recorded for baselines saved with precise matching
+  locations?: ErrorLocation[]
   message?: string
 }
 
@@ -16,6 +35,15 @@ export interface SpecificError {
   file: string
   line: number
   message: string
+  // Indented continuation lines of an elaborated error, as printed by `tsc`
+  messageChain?: string[]
+}
+
+// A regular expression and its replacement, applied to every match in an
+// error message
+export interface MessageReplacement {
+  pattern: string
+  replacement: string
 }
 
 export interface OldBaselineFile {
@@ -25,7 +53,18 @@ export interface OldBaselineFile {
 export interface BaselineFile {
   meta: {
     baselineFileVersion: number
+    // The git commit the baseline was saved at, used to follow renamed files
+    commit?: string
+    exclude?: string[]
     ignoreMessages: boolean
+    include?: string[]
+    includeMessageChain?: boolean
+    messageReplacements?: MessageReplacement[]
+    normalizeMessages?: boolean
+    preciseMatching?: boolean
+    // Directory that file paths are relative to, relative to the baseline file
+    rootDir?: string
+    strictZones?: string[]
   }
   // eslint-disable-next-line typescript-sort-keys/interface
   errors: {
@@ -48,18 +87,146 @@ export type GitLabErrorFormat = {
   severity: string
 }
 
+export type SarifRule = {
+  id: string
+  shortDescription: {
+    text: string
+  }
+}
+export type SarifResult = {
+  kind?: 'pass'
+  level: 'error' | 'warning' | 'none'
+  locations?: {
+    physicalLocation: {
+      artifactLocation: {
+        uri: string
+      }
+      region?: {
+        startColumn: number
+        startLine: number
+      }
+    }
+  }[]
+  message: {
+    text: string
+  }
+  partialFingerprints: {
+    [name: string]: string
+  }
+  ruleId: string
+  ruleIndex: number
+}
+export type SarifLog = {
+  $schema: string
+  runs: {
+    results: SarifResult[]
+    tool: {
+      driver: {
+        informationUri: string
+        name: string
+        rules: SarifRule[]
+      }
+    }
+  }[]
+  version: '2.1.0'
+}
+
+export interface JsonErrorSummary {
+  code: string
+  count: number
+  file: string
+  hash: string
+  message?: string
+}
+export interface JsonNewErrorSummary extends JsonErrorSummary {
+  locations: {
+    column: number
+    line: number
+  }[]
+}
+export interface JsonFileBreakdown {
+  baselineErrors: number
+  currentErrors: number
+  fixedErrors: number
+  newErrors: number
+}
+export interface JsonOutputFormat {
+  baseline: BaselineFile['meta']
+  files: {
+    [file: string]: JsonFileBreakdown
+  }
+  fixedErrors: JsonErrorSummary[]
+  newErrors: JsonNewErrorSummary[]
+  totals: JsonFileBreakdown
+  version: number
+}
+
+// Limits on the number of errors that `check` tolerates. Directories can also
+// be globs.
+export interface ErrorBudgets {
+  // Defaults to 0
+  maxNewErrors?: number
+  maxNewErrorsPerCode?: { [code: string]: number }
+  maxNewErrorsPerDirectory?: { [directory: string]: number }
+  // Meant to be lowered over time as errors are fixed
+  maxTotalErrors?: number
+}
+
+export interface ExceededErrorBudget {
+  count: number
+  description: string
+  // Whether the budget limits the new errors or the total number of errors
+  kind: 'new' | 'total'
+  limit: number
+}
+
+export type ChangedLineRange = { end: number; start: number }
+
+// Changed files with their changed line ranges, or undefined when every line
+// counts as changed
+export type ChangedFiles = Map<string, ChangedLineRange[] | undefined>
+
 export interface ParsingResult {
   errorSummaryMap: ErrorSummaryMap
   specificErrorsMap: SpecificErrorsMap
 }
 
 export enum ErrorFormat {
+  CHECKSTYLE = 'checkstyle',
+  GITHUB = 'github',
   GITLAB = 'gitlab',
-  HUMAN = 'human'
+  HUMAN = 'human',
+  JSON = 'json',
+  JUNIT = 'junit',
+  MARKDOWN = 'markdown',
+  SARIF = 'sarif',
+  TSC = 'tsc'
 }
 
-type ErrorOptions = {
+export enum ErrorSeverity {
+  ERROR = 'error',
+  OFF = 'off',
+  WARNING = 'warning'
+}
+
+// Severities by error code. Codes without a rule are errors.
+export type SeverityRules = { [code: string]: ErrorSeverity }
+
+export type ErrorOptions = {
+  // Globs of files whose errors are left out entirely
+  exclude?: string[]
   ignoreMessages: boolean
+  // Globs of files whose errors are baselined and checked. Defaults to all.
+  include?: string[]
+  includeMessageChain?: boolean
+  messageReplacements?: MessageReplacement[]
+  // Applies the built-in message normalizers
+  normalizeMessages?: boolean
+  preciseMatching?: boolean
+  // Absolute directory that file paths are relative to. Defaults to the cwd.
+  rootDir?: string
+  // Globs of files where no errors are permitted, even if they are baselined
+  strictZones?: string[]
 }
 
 // Hash just the error summary, not the count so that we can easily
@@ -75,13 +242,212 @@ const getErrorSummaryHash = (
   return objectHash({ code, file, message })
 }
 
+// eslint-disable-next-line no-control-regex
+const ansiEscapeCodePattern = /\u001b\[[0-9;]*m/g
+
+const removeAnsiEscapeCodes = (text: string) =>
+  text.replace(ansiEscapeCodePattern, '')
+
+const globalErrorPattern = /^error (TS\d+): (.+)$/
+
+export const isGlobalError = (error: SpecificError | ErrorSummary) =>
+  error.file === GLOBAL_ERRORS_FILE
+
+// e.g. `1 error` and `2 errors`
+export const pluralize = (
+  count: number,
+  singular: string,
+  plural = `${singular}s`
+): string => `${count} ${Math.abs(count) === 1 ? singular : plural}`
+
+const toPosixPath = (path: string) => path.split(sep).join('/')
+
+// Makes the paths printed by `tsc` comparable across machines and working
+// directories, e.g. `C:\project\src\index.ts` and `./src/index.ts` both
+// become `src/index.ts` when the root is the project directory
+export const normalizeFilePath = (
+  file: string,
+  rootDir = process.cwd()
+): string => {
+  if (file === GLOBAL_ERRORS_FILE) {
+    return file
+  }
+  return toPosixPath(
+    relative(rootDir, resolve(process.cwd(), file.replace(/\\/g, '/')))
+  )
+}
+
+// Supports `*`, `**`, `?` and `{a,b}`. Like in .gitignore files, a glob that
+// matches a directory also matches everything in it.
+const globToRegExp = (glob: string) => {
+  let pattern = ''
+  let braceDepth = 0
+  const normalizedGlob = glob.replace(/^\.\//, '').replace(/\/$/, '')
+  for (let index = 0; index < normalizedGlob.length; index++) {
+    const character = normalizedGlob[index]
+    if (normalizedGlob.startsWith('**/', index)) {
+      pattern += '(?:.*/)?'
+      index += 2
+    } else if (normalizedGlob.startsWith('**', index)) {
+      pattern += '.*'
+      index += 1
+    } else if (character === '*') {
+      pattern += '[^/]*'
+    } else if (character === '?') {
+      pattern += '[^/]'
+    } else if (character === '{') {
+      pattern += '(?:'
+      braceDepth += 1
+    } else if (character === '}' && braceDepth > 0) {
+      pattern += ')'
+      braceDepth -= 1
+    } else if (character === ',' && braceDepth > 0) {
+      pattern += '|'
+    } else {
+      pattern += character.replace(/[.+^$()|[\]{}\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${pattern}(?:/.*)?$`)
+}
+
+export const matchesGlob = (file: string, globs: string[]): boolean =>
+  globs.some((glob) => globToRegExp(glob).test(file))
+
+// Errors without a file location are never left out
+export const isFileIncluded = (
+  file: string,
+  { exclude = [], include = [] }: ErrorOptions
+): boolean =>
+  file === GLOBAL_ERRORS_FILE ||
+  ((include.length === 0 || matchesGlob(file, include)) &&
+    !matchesGlob(file, exclude))
+
+export const formatErrorLocation = (error: SpecificError): string =>
+  isGlobalError(error)
+    ? error.file
+    : `${error.file}(${error.line},${error.column})`
+
+// Replaces each outermost `{ ... }` type literal. Nested braces can't be
+// matched with a regular expression.
+const collapseTypeLiterals = (message: string) => {
+  let result = ''
+  let depth = 0
+  for (const character of message) {
+    if (character === '{') {
+      result += depth === 0 ? '{ ... }' : ''
+      depth += 1
+    } else if (character === '}' && depth > 0) {
+      depth -= 1
+    } else if (depth === 0) {
+      result += character
+    }
+  }
+  return result
+}
+
+// Parts of messages that change between machines and TypeScript versions
+const builtInMessageNormalizers: Array<(message: string) => string> = [
+  // Inferred import types contain the absolute path of the module
+  (message) =>
+    message.replace(
+      /import\("[^"]*\/node_modules\/([^"]*)"\)/g,
+      'import("$1")'
+    ),
+  (message) =>
+    message.replace(/import\("(?:[A-Za-z]:)?[\\/][^"]*"\)/g, 'import("...")'),
+  // Unique symbols are printed with a generated id, e.g. `__@key@1234`
+  (message) => message.replace(/(__@\w+)@\d+/g, '$1'),
+  // The number of elided members depends on the TypeScript version
+  (message) => message.replace(/\.\.\. \d+ more \.\.\./g, '...'),
+  collapseTypeLiterals
+]
+
+export const normalizeErrorMessage = (
+  message: string,
+  { messageReplacements = [], normalizeMessages }: ErrorOptions
+): string => {
+  let result = normalizeMessages
+    ? builtInMessageNormalizers.reduce(
+        (normalizedMessage, normalize) => normalize(normalizedMessage),
+        message
+      )
+    : message
+  for (const { pattern, replacement } of messageReplacements) {
+    result = result.replace(new RegExp(pattern, 'g'), replacement)
+  }
+  return result
+}
+
+// The message used to identify an error, which is either just the first line
+// or the full elaborated message when the message chain is included
+export const getErrorMessage = (
+  error: SpecificError,
+  errorOptions: ErrorOptions
+): string =>
+  normalizeErrorMessage(
+    errorOptions.includeMessageChain && error.messageChain?.length
+      ? [error.message, ...error.messageChain].join('\n')
+      : error.message,
+    errorOptions
+  )
+
+const errorPattern = /^(.+)\((\d+),(\d+)\): error (\w+): (.+)$/
+// Format used by `tsc --pretty`, which is the default in a terminal
+const prettyErrorPattern = /^(.+):(\d+):(\d+) - error (\w+): (.+)$/
+
+const isErrorLine = (line: string) =>
+  errorPattern.test(line) || prettyErrorPattern.test(line)
+
 export const parseTypeScriptErrors = (
   errorLog: string,
-  { ignoreMessages }: ErrorOptions
+  errorOptions: ErrorOptions
 ): ParsingResult => {
-  const errorPattern = /^(.+)\((\d+),(\d+)\): error (\w+): (.+)$/
+  const continuationPattern = /^\s+\S/
+
+  const lines = removeAnsiEscapeCodes(errorLog).split('\n')
+  const errors: SpecificError[] = []
+  let lastError: SpecificError | undefined
+
+  for (const line of lines) {
+    const match = line.match(errorPattern) || line.match(prettyErrorPattern)
+    if (match) {
+      const [, file, lineStr, columnStr, code, message] = match
+      lastError = {
+        file,
+        code,
+        message,
+        line: parseInt(lineStr),
+        column: parseInt(columnStr)
+      }
+      errors.push(lastError)
+    } else if (globalErrorPattern.test(line)) {
+      const [, code, message] = line.match(globalErrorPattern) ?? []
+      lastError = {
+        file: GLOBAL_ERRORS_FILE,
+        code,
+        message,
+        line: 0,
+        column: 0
+      }
+      errors.push(lastError)
+    } else if (lastError && continuationPattern.test(line)) {
+      lastError.messageChain = [...(lastError.messageChain ?? []), line]
+    } else {
+      lastError = undefined
+    }
+  }
+
+  return getParsingResult(errors, errorOptions)
+}
 
-  const lines = errorLog.split('\n')
+// Groups specific errors into the maps used for comparing against the baseline.
+// Shared by the text parser and the in-process compiler so both produce
+// identical summaries and hashes.
+export const getParsingResult = (
+  errors: SpecificError[],
+  errorOptions: ErrorOptions
+): ParsingResult => {
+  const { ignoreMessages } = errorOptions
   const specificErrorsMap: SpecificErrorsMap = new Map<
     string,
     SpecificError[]
@@ -101,14 +467,14 @@ export const parseTypeScriptErrors = (
   }
 
   const addErrorToSummary = (error: SpecificError) => {
-    const { file, code, message } = error
+    const { file, code } = error
     let errorSummary: ErrorSummary = {
       file,
       code,
       count: 1
     }
     if (!ignoreMessages) {
-      errorSummary.message = message
+      errorSummary.message = getErrorMessage(error, errorOptions)
     }
     const key = getErrorSummaryHash(errorSummary, { ignoreMessages })
 
@@ -120,34 +486,127 @@ export const parseTypeScriptErrors = (
     errorSummaryMap.set(key, errorSummary)
   }
 
-  for (const line of lines) {
-    const match = line.match(errorPattern)
-    if (match) {
-      const [, file, lineStr, columnStr, code, message] = match
-      const error: SpecificError = {
-        file,
-        code,
-        message,
-        line: parseInt(lineStr),
-        column: parseInt(columnStr)
-      }
-      addSpecificErrorToMap(error.file, error)
-      addErrorToSummary(error)
+  for (const error of errors) {
+    const normalizedError = {
+      ...error,
+      file: normalizeFilePath(error.file, errorOptions.rootDir)
+    }
+    if (!isFileIncluded(normalizedError.file, errorOptions)) {
+      continue
     }
+    addSpecificErrorToMap(normalizedError.file, normalizedError)
+    addErrorToSummary(normalizedError)
   }
 
   return { specificErrorsMap, errorSummaryMap }
 }
 
+// Lines printed around the compiler output by package managers and `tsc`
+// itself, which are expected even when the type-check passes
+const compilerOutputNoisePatterns = [
+  /^> /,
+  /^\$ /,
+  /^yarn run v/,
+  /^Done in /,
+  /^info /,
+  /^warning /,
+  /^error Command failed/,
+  /^npm (ERR!|error|warn)/,
+  /^Found \d+ errors?/
+]
+const stackTracePattern = /^\s+at .+:\d+:\d+\)?$/
+const configErrorCodePattern = /^TS5\d{3}$/
+
+const formatInputLines = (lines: string[]) =>
+  lines
+    .slice(0, 5)
+    .map((line) => `  ${line}`)
+    .join('\n')
+
+// Explains why the input doesn't look like the output of a type-check that ran
+// to completion, so that a broken type-check can't silently pass `check`
+// Only looks at the raw input, since errors may have been left out of the
+// parsing result by the include and exclude globs
+export const getInvalidCompilerOutputReason = (
+  errorLog: string,
+  { allowEmptyInput = false }: { allowEmptyInput?: boolean } = {}
+): string | undefined => {
+  const lines = removeAnsiEscapeCodes(errorLog)
+    .split('\n')
+    .map((line) => line.trimEnd())
+
+  if (!errorLog.trim()) {
+    if (allowEmptyInput) {
+      return undefined
+    }
+    return `No compiler output was received.
+
+A type-check without errors produces no output, so pass --allowEmptyInput if
+this is expected, or use --project to run the TypeScript compiler directly.`
+  }
+
+  const stackTraceLines = lines.filter((line) => stackTracePattern.test(line))
+  if (stackTraceLines.length > 0) {
+    return `The TypeScript compiler appears to have crashed:
+${formatInputLines(stackTraceLines)}`
+  }
+
+  // Configuration errors without a location stop `tsc` before it type-checks
+  // any files, so nothing else will have been reported
+  const configErrorLines = lines.filter((line) =>
+    configErrorCodePattern.test(line.match(globalErrorPattern)?.[1] ?? '')
+  )
+  if (configErrorLines.length > 0 && !lines.some((line) => isErrorLine(line))) {
+    return `The TypeScript compiler reported configuration errors and did not type-check the project:
+${formatInputLines(configErrorLines)}`
+  }
+
+  const unrecognizedLines = lines.filter(
+    (line) =>
+      line.trim() &&
+      !compilerOutputNoisePatterns.some((pattern) => pattern.test(line))
+  )
+  if (
+    unrecognizedLines.length > 0 &&
+    !lines.some((line) => isErrorLine(line) || globalErrorPattern.test(line))
+  ) {
+    return `The input does not look like output from the TypeScript compiler:
+${formatInputLines(unrecognizedLines)}`
+  }
+
+  return undefined
+}
+
 export const writeTypeScriptErrorsToFile = (
   map: ErrorSummaryMap,
   filepath: string,
-  errorOptions: ErrorOptions
+  errorOptions: ErrorOptions,
+  commit?: string
 ): void => {
   const newBaselineFile: BaselineFile = {
     meta: {
       baselineFileVersion: CURRENT_BASELINE_VERSION,
-      ignoreMessages: errorOptions.ignoreMessages
+      ...(commit && { commit }),
+      ...(errorOptions.exclude &&
+        errorOptions.exclude.length > 0 && { exclude: errorOptions.exclude }),
+      ignoreMessages: errorOptions.ignoreMessages,
+      ...(errorOptions.include &&
+        errorOptions.include.length > 0 && { include: errorOptions.include }),
+      ...(errorOptions.includeMessageChain && { includeMessageChain: true }),
+      ...(errorOptions.messageReplacements &&
+        errorOptions.messageReplacements.length > 0 && {
+          messageReplacements: errorOptions.messageReplacements
+        }),
+      ...(errorOptions.normalizeMessages && { normalizeMessages: true }),
+      ...(errorOptions.preciseMatching && { preciseMatching: true }),
+      ...(errorOptions.rootDir && {
+        rootDir:
+          toPosixPath(relative(dirname(filepath), errorOptions.rootDir)) || '.'
+      }),
+      ...(errorOptions.strictZones &&
+        errorOptions.strictZones.length > 0 && {
+          strictZones: errorOptions.strictZones
+        })
     },
     errors: Object.fromEntries(map)
   }
@@ -185,6 +644,28 @@ export const getErrorSummaryMap = (baselineFile: BaselineFile) => {
   return new Map(Object.entries(baselineFile.errors))
 }
 
+// The options the baseline was saved with. A `rootDir` overrides the one
+// recorded in the baseline file.
+export const getBaselineErrorOptions = (
+  baselineFile: BaselineFile,
+  filepath: string,
+  rootDir?: string
+): ErrorOptions => ({
+  exclude: baselineFile.meta.exclude,
+  ignoreMessages: baselineFile.meta.ignoreMessages,
+  include: baselineFile.meta.include,
+  includeMessageChain: baselineFile.meta.includeMessageChain,
+  messageReplacements: baselineFile.meta.messageReplacements,
+  normalizeMessages: baselineFile.meta.normalizeMessages,
+  preciseMatching: baselineFile.meta.preciseMatching,
+  rootDir:
+    rootDir ??
+    (baselineFile.meta.rootDir
+      ? resolve(dirname(filepath), baselineFile.meta.rootDir)
+      : undefined),
+  strictZones: baselineFile.meta.strictZones
+})
+
 export const getNewErrors = (
   oldErrors: ErrorSummaryMap,
   newErrors: ErrorSummaryMap
@@ -207,6 +688,304 @@ export const getNewErrors = (
   return result
 }
 
+// Baseline errors that are no longer present or whose count has dropped, with
+// the count of errors that were fixed
+export const getFixedErrors = (
+  oldErrors: ErrorSummaryMap,
+  newErrors: ErrorSummaryMap
+): ErrorSummaryMap => getNewErrors(newErrors, oldErrors)
+
+// Lowers the count of each baseline error to the number of errors that are
+// still present and drops the errors that have been fixed entirely, so that
+// fixed errors can't be reintroduced later
+export const getRatchetedErrors = (
+  oldErrors: ErrorSummaryMap,
+  newErrors: ErrorSummaryMap
+): ErrorSummaryMap => {
+  const result = new Map<string, ErrorSummary>()
+
+  for (const [id, error] of oldErrors) {
+    const newErrCount = newErrors.get(id)?.count ?? 0
+    if (newErrCount > 0) {
+      result.set(id, { ...error, count: Math.min(error.count, newErrCount) })
+    }
+  }
+
+  return result
+}
+
+// Current errors that are not new, i.e. the ones covered by the baseline.
+// Without precise matching it is unknown which of the errors with the same hash
+// are the new ones, so all of their specific errors are kept.
+export const getBaselinedErrors = (
+  currentErrors: ParsingResult,
+  newErrors: ParsingResult,
+  errorOptions: ErrorOptions
+): ParsingResult => {
+  const errorSummaryMap = getNewErrors(
+    newErrors.errorSummaryMap,
+    currentErrors.errorSummaryMap
+  )
+  if (!errorOptions.preciseMatching) {
+    return {
+      errorSummaryMap,
+      specificErrorsMap: currentErrors.specificErrorsMap
+    }
+  }
+  const newSpecificErrors = new Set(
+    Array.from(newErrors.specificErrorsMap.values()).flat()
+  )
+  return {
+    errorSummaryMap,
+    specificErrorsMap: new Map(
+      Array.from(currentErrors.specificErrorsMap).map(
+        ([file, specificErrors]) => [
+          file,
+          specificErrors.filter(
+            (specificError) => !newSpecificErrors.has(specificError)
+          )
+        ]
+      )
+    )
+  }
+}
+
+// Errors that end up with the same hash as an existing error are merged into it
+const remapErrorFiles = (
+  errorSummaryMap: ErrorSummaryMap,
+  getFile: (file: string) => string,
+  errorOptions: ErrorOptions
+): ErrorSummaryMap => {
+  const result = new Map<string, ErrorSummary>()
+
+  for (const [id, error] of errorSummaryMap) {
+    const file = getFile(error.file)
+    const renamedError = file !== error.file ? { ...error, file } : error
+    const key =
+      file !== error.file ? getErrorSummaryHash(renamedError, errorOptions) : id
+    const existingError = result.get(key)
+    if (existingError) {
+      result.set(key, {
+        ...renamedError,
+        count: existingError.count + renamedError.count,
+        locations:
+          existingError.locations && renamedError.locations
+            ? existingError.locations.concat(renamedError.locations)
+            : undefined
+      })
+    } else {
+      result.set(key, renamedError)
+    }
+  }
+
+  return result
+}
+
+// Leaves out baseline errors of files that are no longer included
+export const getIncludedErrors = (
+  errorSummaryMap: ErrorSummaryMap,
+  errorOptions: ErrorOptions
+): ErrorSummaryMap =>
+  new Map(
+    Array.from(errorSummaryMap).filter(([, error]) =>
+      isFileIncluded(error.file, errorOptions)
+    )
+  )
+
+export const isInStrictZone = (
+  file: string,
+  { strictZones = [] }: ErrorOptions
+): boolean => file !== GLOBAL_ERRORS_FILE && matchesGlob(file, strictZones)
+
+export const getStrictZoneErrors = (
+  errorSummaryMap: ErrorSummaryMap,
+  errorOptions: ErrorOptions
+): ErrorSummaryMap =>
+  new Map(
+    Array.from(errorSummaryMap).filter(([, error]) =>
+      isInStrictZone(error.file, errorOptions)
+    )
+  )
+
+// Leaves out baseline errors in strict zones, so that every error there is
+// reported as new
+export const getErrorsOutsideStrictZones = (
+  errorSummaryMap: ErrorSummaryMap,
+  errorOptions: ErrorOptions
+): ErrorSummaryMap =>
+  new Map(
+    Array.from(errorSummaryMap).filter(
+      ([, error]) => !isInStrictZone(error.file, errorOptions)
+    )
+  )
+
+const isErrorChanged = (error: SpecificError, changedFiles: ChangedFiles) => {
+  const lineRanges = changedFiles.get(error.file)
+  return (
+    changedFiles.has(error.file) &&
+    (!lineRanges ||
+      lineRanges.some(
+        ({ start, end }) => error.line >= start && error.line <= end
+      ))
+  )
+}
+
+export const getErrorSeverity = (
+  code: string,
+  severityRules: SeverityRules
+): ErrorSeverity => severityRules[code] ?? ErrorSeverity.ERROR
+
+export const getErrorsWithSeverity = (
+  errorSummaryMap: ErrorSummaryMap,
+  severityRules: SeverityRules,
+  severities: ErrorSeverity[]
+): ErrorSummaryMap =>
+  new Map(
+    Array.from(errorSummaryMap).filter(([, error]) =>
+      severities.includes(getErrorSeverity(error.code, severityRules))
+    )
+  )
+
+// Limits new errors to the ones in changed files, or on changed lines. Errors
+// in strict zones are kept since they fail regardless of what was changed.
+export const getErrorsInChangedFiles = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorsMap: SpecificErrorsMap,
+  changedFiles: ChangedFiles,
+  errorOptions: ErrorOptions
+): ParsingResult => {
+  const changedErrorSummaryMap = new Map<string, ErrorSummary>()
+  const changedSpecificErrorsMap: SpecificErrorsMap = new Map()
+
+  for (const [key, error] of errorSummaryMap) {
+    const specificErrors = getSpecificErrorsMatchingSummary(
+      error,
+      specificErrorsMap,
+      errorOptions
+    )
+    const changedErrors = isInStrictZone(error.file, errorOptions)
+      ? specificErrors
+      : specificErrors.filter((specificError) =>
+          isErrorChanged(specificError, changedFiles)
+        )
+    if (changedErrors.length > 0) {
+      changedErrorSummaryMap.set(key, {
+        ...error,
+        count: Math.min(error.count, changedErrors.length)
+      })
+      changedSpecificErrorsMap.set(
+        error.file,
+        (changedSpecificErrorsMap.get(error.file) ?? []).concat(changedErrors)
+      )
+    }
+  }
+
+  return {
+    errorSummaryMap: changedErrorSummaryMap,
+    specificErrorsMap: changedSpecificErrorsMap
+  }
+}
+
+// Moves baseline errors of renamed files to their new path
+export const remapRenamedFiles = (
+  errorSummaryMap: ErrorSummaryMap,
+  renamedFiles: Map<string, string>,
+  errorOptions: ErrorOptions
+): ErrorSummaryMap =>
+  remapErrorFiles(
+    errorSummaryMap,
+    (file) => renamedFiles.get(file) ?? file,
+    errorOptions
+  )
+
+// Migrates baselines saved before paths were normalized, which contain the
+// paths exactly as `tsc` printed them
+export const normalizeErrorSummaryPaths = (
+  errorSummaryMap: ErrorSummaryMap,
+  errorOptions: ErrorOptions
+): ErrorSummaryMap =>
+  remapErrorFiles(
+    errorSummaryMap,
+    (file) => normalizeFilePath(file, errorOptions.rootDir),
+    errorOptions
+  )
+
+export const getExceededErrorBudgets = (
+  newErrorSummaryMap: ErrorSummaryMap,
+  currentErrorSummaryMap: ErrorSummaryMap,
+  {
+    maxNewErrors,
+    maxNewErrorsPerCode = {},
+    maxNewErrorsPerDirectory = {},
+    maxTotalErrors
+  }: ErrorBudgets
+): ExceededErrorBudget[] => {
+  const exceededErrorBudgets: ExceededErrorBudget[] = []
+  const newErrorSummaries = Array.from(newErrorSummaryMap.values())
+  const checkBudget = (
+    errorSummaries: ErrorSummary[],
+    limit: number,
+    getDescription: (errors: string) => string,
+    kind: ExceededErrorBudget['kind'] = 'new'
+  ) => {
+    const count = errorSummaries.reduce((sum, error) => sum + error.count, 0)
+    if (count > limit) {
+      exceededErrorBudgets.push({
+        count,
+        description: getDescription(count === 1 ? 'error' : 'errors'),
+        kind,
+        limit
+      })
+    }
+  }
+
+  if (maxNewErrors !== undefined) {
+    checkBudget(newErrorSummaries, maxNewErrors, (errors) => `new ${errors}`)
+  } else {
+    // Without an overall budget, budgets per error code or directory allow
+    // their new errors while any other new error still fails
+    checkBudget(
+      newErrorSummaries.filter(
+        (error) =>
+          !Object.prototype.hasOwnProperty.call(
+            maxNewErrorsPerCode,
+            error.code
+          ) && !matchesGlob(error.file, Object.keys(maxNewErrorsPerDirectory))
+      ),
+      0,
+      (errors) =>
+        Object.keys(maxNewErrorsPerCode).length > 0 ||
+        Object.keys(maxNewErrorsPerDirectory).length > 0
+          ? `new ${errors} outside of the budgets per code and directory`
+          : `new ${errors}`
+    )
+  }
+  for (const [code, limit] of Object.entries(maxNewErrorsPerCode)) {
+    checkBudget(
+      newErrorSummaries.filter((error) => error.code === code),
+      limit,
+      (errors) => `new ${code} ${errors}`
+    )
+  }
+  for (const [directory, limit] of Object.entries(maxNewErrorsPerDirectory)) {
+    checkBudget(
+      newErrorSummaries.filter((error) => matchesGlob(error.file, [directory])),
+      limit,
+      (errors) => `new ${errors} in ${directory}`
+    )
+  }
+  if (maxTotalErrors !== undefined) {
+    checkBudget(
+      Array.from(currentErrorSummaryMap.values()),
+      maxTotalErrors,
+      (errors) => `${errors} in total`,
+      'total'
+    )
+  }
+
+  return exceededErrorBudgets
+}
+
 export const getTotalErrorsCount = (errorMap: ErrorSummaryMap): number =>
   // NOTE: Previously, this was written with an array spread, but there was a bug
   // with microbundle that was incorrectly compiling that (see: https://github.com/TimMikeladze/tsc-baseline/issues/21).
@@ -238,15 +1017,10 @@ export const toHumanReadableText = (
 
     if (!isReportingUnmatchedErrors) {
       log += `Count of new errors: ${error.count}\n`
-      log += `${specificErrors.length} current error${
-        specificErrors.length === 1 ? '' : 's'
-      }:\n`
+      log += `${pluralize(specificErrors.length, 'current error')}:\n`
 
       log += specificErrors
-        .map(
-          (specificError) =>
-            `${specificError.file}(${specificError.line},${specificError.column})`
-        )
+        .map((specificError) => formatErrorLocation(specificError))
         .join('\n')
     }
 
@@ -269,7 +1043,8 @@ export const getSpecificErrorsMatchingSummary = (
           specificError.file === errorSummary.file &&
           (errorOptions.ignoreMessages
             ? true
-            : specificError.message === errorSummary.message) &&
+            : getErrorMessage(specificError, errorOptions) ===
+              errorSummary.message) &&
           specificError.code === errorSummary.code
       ) || []
   )
@@ -297,9 +1072,12 @@ export const addHashToBaseline = (hash: string, filepath: string): void => {
     count: 1
   })
 
-  writeTypeScriptErrorsToFile(newErrors, filepath, {
-    ignoreMessages: baselineErrorsFile.meta.ignoreMessages
-  })
+  writeTypeScriptErrorsToFile(
+    newErrors,
+    filepath,
+    getBaselineErrorOptions(baselineErrorsFile, filepath),
+    baselineErrorsFile.meta.commit
+  )
 }
 
 export const toGitLabOutputFormat = (
@@ -334,3 +1112,631 @@ export const toGitLabOutputFormat = (
 
   return JSON.stringify(result, null, 2)
 }
+
+export const toSarifOutputFormat = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions,
+  fixedErrorSummaryMap: ErrorSummaryMap = new Map(),
+  severityRules: SeverityRules = {}
+): string => {
+  const rules: SarifRule[] = []
+  const results: SarifResult[] = []
+
+  const getRuleIndex = (code: string) => {
+    let ruleIndex = rules.findIndex((rule) => rule.id === code)
+    if (ruleIndex === -1) {
+      ruleIndex =
+        rules.push({
+          id: code,
+          shortDescription: {
+            text: `TypeScript error ${code}`
+          }
+        }) - 1
+    }
+    return ruleIndex
+  }
+
+  for (const [key, error] of errorSummaryMap.entries()) {
+    const specificErrors: SpecificError[] = getSpecificErrorsMatchingSummary(
+      error,
+      specificErrorMap,
+      errorOptions
+    )
+
+    specificErrors.forEach((specificError: SpecificError, index: number) => {
+      results.push({
+        ruleId: specificError.code,
+        ruleIndex: getRuleIndex(specificError.code),
+        level:
+          getErrorSeverity(specificError.code, severityRules) ===
+          ErrorSeverity.WARNING
+            ? 'warning'
+            : 'error',
+        message: {
+          text: getErrorMessage(specificError, {
+            ignoreMessages: false,
+            includeMessageChain: true
+          })
+        },
+        ...(!isGlobalError(specificError) && {
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: specificError.file
+                },
+                region: {
+                  startLine: specificError.line,
+                  startColumn: specificError.column
+                }
+              }
+            }
+          ]
+        }),
+        partialFingerprints: {
+          'tscBaselineHash/v1': `${key}-${index}`
+        }
+      })
+    })
+  }
+
+  // Fixed errors are reported as passing results without a region since the
+  // errors no longer exist in the code
+  for (const [key, error] of fixedErrorSummaryMap.entries()) {
+    results.push({
+      ruleId: error.code,
+      ruleIndex: getRuleIndex(error.code),
+      kind: 'pass',
+      level: 'none',
+      message: {
+        text: `Fixed ${pluralize(error.count, 'error')}${
+          error.message ? `: ${error.message}` : ''
+        }`
+      },
+      ...(!isGlobalError(error) && {
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: error.file
+              }
+            }
+          }
+        ]
+      }),
+      partialFingerprints: {
+        'tscBaselineHash/v1': key
+      }
+    })
+  }
+
+  const sarifLog: SarifLog = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'tsc-baseline',
+            informationUri: 'https://github.com/TimMikeladze/tsc-baseline',
+            rules
+          }
+        },
+        results
+      }
+    ]
+  }
+
+  return JSON.stringify(sarifLog, null, 2)
+}
+
+// See https://docs.github.com/en/actions/using-workflows/workflow-commands-for-github-actions
+const escapeGitHubCommandData = (value: string) =>
+  value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A')
+
+const escapeGitHubCommandProperty = (value: string) =>
+  escapeGitHubCommandData(value).replace(/:/g, '%3A').replace(/,/g, '%2C')
+
+type GitHubCommandProperties = { [name: string]: string | number }
+
+const toGitHubCommand = (
+  command: string,
+  properties: GitHubCommandProperties,
+  message: string
+) =>
+  `::${command} ${Object.entries(properties)
+    .map(
+      ([name, value]) => `${name}=${escapeGitHubCommandProperty(String(value))}`
+    )
+    .join(',')}::${escapeGitHubCommandData(message)}`
+
+export const toGitHubOutputFormat = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions,
+  fixedErrorSummaryMap: ErrorSummaryMap = new Map(),
+  severityRules: SeverityRules = {}
+): string => {
+  const result: string[] = []
+
+  for (const error of errorSummaryMap.values()) {
+    const specificErrors: SpecificError[] = getSpecificErrorsMatchingSummary(
+      error,
+      specificErrorMap,
+      errorOptions
+    )
+
+    for (const specificError of specificErrors) {
+      const properties: GitHubCommandProperties = isGlobalError(specificError)
+        ? {
+            title: specificError.code
+          }
+        : {
+            file: specificError.file,
+            line: specificError.line,
+            col: specificError.column,
+            title: specificError.code
+          }
+      const message = getErrorMessage(specificError, {
+        ignoreMessages: false,
+        includeMessageChain: true
+      })
+
+      result.push(
+        toGitHubCommand(
+          getErrorSeverity(specificError.code, severityRules) ===
+            ErrorSeverity.WARNING
+            ? 'warning'
+            : 'error',
+          properties,
+          message
+        )
+      )
+    }
+  }
+
+  for (const error of fixedErrorSummaryMap.values()) {
+    result.push(
+      toGitHubCommand(
+        'notice',
+        isGlobalError(error)
+          ? { title: `Fixed ${error.code}` }
+          : { file: error.file, title: `Fixed ${error.code}` },
+        `${pluralize(error.count, 'error')} fixed${
+          error.message ? `: ${error.message}` : ''
+        }`
+      )
+    )
+  }
+
+  return result.join('\n')
+}
+
+const getErrorSummaryTitle = (error: ErrorSummary) =>
+  error.message ? `${error.code}: ${error.message}` : error.code
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+// Writes one test suite per file with a failing test case for each group of
+// new errors and a passing test case for each group of fixed errors. Files
+// from `checkedErrorSummaryMap` without new errors get a passing test case so
+// that they show up as clean.
+export const toJUnitOutputFormat = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions,
+  checkedErrorSummaryMap: ErrorSummaryMap = new Map(),
+  fixedErrorSummaryMap: ErrorSummaryMap = new Map()
+): string => {
+  const files = Array.from(
+    new Set(
+      Array.from(checkedErrorSummaryMap.values())
+        .concat(Array.from(errorSummaryMap.values()))
+        .concat(Array.from(fixedErrorSummaryMap.values()))
+        .map((error) => error.file)
+    )
+  ).sort()
+
+  const testSuites: string[] = []
+  let totalTests = 0
+  let totalFailures = 0
+
+  for (const file of files) {
+    const testCases: string[] = []
+
+    for (const [key, error] of errorSummaryMap.entries()) {
+      if (error.file !== file) {
+        continue
+      }
+      const specificErrors: SpecificError[] = getSpecificErrorsMatchingSummary(
+        error,
+        specificErrorMap,
+        errorOptions
+      )
+      const name = getErrorSummaryTitle(error)
+      const details = [
+        `Hash: ${key}`,
+        `Count of new errors: ${error.count}`,
+        ...specificErrors.map((specificError) =>
+          formatErrorLocation(specificError)
+        )
+      ].join('\n')
+
+      testCases.push(
+        [
+          `    <testcase classname="${escapeXml(file)}" name="${escapeXml(
+            name
+          )}">`,
+          `      <failure message="${escapeXml(name)}" type="${
+            error.code
+          }">${escapeXml(details)}</failure>`,
+          '    </testcase>'
+        ].join('\n')
+      )
+    }
+
+    const failures = testCases.length
+    if (failures === 0) {
+      testCases.push(
+        `    <testcase classname="${escapeXml(
+          file
+        )}" name="No new TypeScript errors" />`
+      )
+    }
+    for (const error of fixedErrorSummaryMap.values()) {
+      if (error.file === file) {
+        testCases.push(
+          `    <testcase classname="${escapeXml(file)}" name="${escapeXml(
+            `Fixed ${getErrorSummaryTitle(error)}`
+          )}" />`
+        )
+      }
+    }
+    totalTests += testCases.length
+    totalFailures += failures
+
+    testSuites.push(
+      [
+        `  <testsuite name="${escapeXml(file)}" tests="${
+          testCases.length
+        }" failures="${failures}">`,
+        ...testCases,
+        '  </testsuite>'
+      ].join('\n')
+    )
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="tsc-baseline" tests="${totalTests}" failures="${totalFailures}">`,
+    ...testSuites,
+    '</testsuites>'
+  ].join('\n')
+}
+
+const toJsonErrorSummary = (
+  hash: string,
+  error: ErrorSummary
+): JsonErrorSummary => ({
+  hash,
+  file: error.file,
+  code: error.code,
+  ...(error.message !== undefined && { message: error.message }),
+  count: error.count
+})
+
+export const toJsonOutputFormat = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions,
+  baselineFile: BaselineFile,
+  // The baseline errors as compared by `check`, i.e. after filtering,
+  // remapping renamed files and migrating paths
+  baselineErrorSummaryMap: ErrorSummaryMap,
+  currentErrorSummaryMap: ErrorSummaryMap,
+  fixedErrorSummaryMap: ErrorSummaryMap
+): string => {
+  const files: JsonOutputFormat['files'] = {}
+  const addToFile = (
+    errorMap: ErrorSummaryMap,
+    key: keyof JsonFileBreakdown
+  ) => {
+    for (const error of errorMap.values()) {
+      files[error.file] = files[error.file] ?? {
+        baselineErrors: 0,
+        currentErrors: 0,
+        fixedErrors: 0,
+        newErrors: 0
+      }
+      files[error.file][key] += error.count
+    }
+  }
+  addToFile(baselineErrorSummaryMap, 'baselineErrors')
+  addToFile(currentErrorSummaryMap, 'currentErrors')
+  addToFile(fixedErrorSummaryMap, 'fixedErrors')
+  addToFile(errorSummaryMap, 'newErrors')
+
+  const result: JsonOutputFormat = {
+    version: JSON_OUTPUT_FORMAT_VERSION,
+    baseline: baselineFile.meta,
+    totals: {
+      baselineErrors: getTotalErrorsCount(baselineErrorSummaryMap),
+      currentErrors: getTotalErrorsCount(currentErrorSummaryMap),
+      fixedErrors: getTotalErrorsCount(fixedErrorSummaryMap),
+      newErrors: getTotalErrorsCount(errorSummaryMap)
+    },
+    newErrors: Array.from(errorSummaryMap).map(([key, error]) => ({
+      ...toJsonErrorSummary(key, error),
+      locations: getSpecificErrorsMatchingSummary(
+        error,
+        specificErrorMap,
+        errorOptions
+      ).map((specificError) => ({
+        line: specificError.line,
+        column: specificError.column
+      }))
+    })),
+    fixedErrors: Array.from(fixedErrorSummaryMap).map(([key, error]) =>
+      toJsonErrorSummary(key, error)
+    ),
+    files
+  }
+
+  return JSON.stringify(result, null, 2)
+}
+
+export const toCheckstyleOutputFormat = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions,
+  severityRules: SeverityRules = {}
+): string => {
+  const errorsByFile = new Map<string, string[]>()
+
+  for (const error of errorSummaryMap.values()) {
+    const specificErrors: SpecificError[] = getSpecificErrorsMatchingSummary(
+      error,
+      specificErrorMap,
+      errorOptions
+    )
+
+    for (const specificError of specificErrors) {
+      const location = isGlobalError(specificError)
+        ? ''
+        : ` line="${specificError.line}" column="${specificError.column}"`
+      const message = getErrorMessage(specificError, {
+        ignoreMessages: false,
+        includeMessageChain: true
+      })
+      const severity =
+        getErrorSeverity(specificError.code, severityRules) ===
+        ErrorSeverity.WARNING
+          ? 'warning'
+          : 'error'
+      const errors = errorsByFile.get(specificError.file) ?? []
+      errors.push(
+        `    <error${location} severity="${severity}" message="${escapeXml(
+          message
+        )}" source="${specificError.code}" />`
+      )
+      errorsByFile.set(specificError.file, errors)
+    }
+  }
+
+  const files = Array.from(errorsByFile).map(([file, errors]) =>
+    [`  <file name="${escapeXml(file)}">`, ...errors, '  </file>'].join('\n')
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<checkstyle version="4.3">',
+    ...files,
+    '</checkstyle>'
+  ].join('\n')
+}
+
+// Re-emits the errors exactly as `tsc` prints them so that the output can be
+// passed on to other tools that understand the compiler's format
+export const toTscOutputFormat = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions
+): string => {
+  const result: string[] = []
+
+  for (const error of errorSummaryMap.values()) {
+    const specificErrors: SpecificError[] = getSpecificErrorsMatchingSummary(
+      error,
+      specificErrorMap,
+      errorOptions
+    )
+
+    for (const specificError of specificErrors) {
+      const location = isGlobalError(specificError)
+        ? ''
+        : `${formatErrorLocation(specificError)}: `
+      result.push(
+        `${location}error ${specificError.code}: ${getErrorMessage(
+          specificError,
+          { ignoreMessages: false, includeMessageChain: true }
+        )}`
+      )
+    }
+  }
+
+  return result.join('\n')
+}
+
+// Limits the size of tables so that reports fit in a pull request comment
+const MAX_MARKDOWN_TABLE_ROWS = 50
+
+// Number of error codes listed as top regressions
+const MAX_MARKDOWN_REGRESSIONS = 5
+
+// Keeps generics such as `Array<string>` from being rendered as HTML tags
+export const escapeMarkdownTableCell = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, ' ')
+
+const toMarkdownTable = (headings: string[], rows: string[][]) => {
+  const table = [
+    `| ${headings.join(' | ')} |`,
+    `| ${headings
+      .map((heading) => (heading === 'Errors' ? '---:' : '---'))
+      .join(' | ')} |`
+  ].concat(
+    rows
+      .slice(0, MAX_MARKDOWN_TABLE_ROWS)
+      .map((row) => `| ${row.join(' | ')} |`)
+  )
+  if (rows.length > MAX_MARKDOWN_TABLE_ROWS) {
+    table.push('', `_And ${rows.length - MAX_MARKDOWN_TABLE_ROWS} more._`)
+  }
+  return table.join('\n')
+}
+
+const toMarkdownDetails = (summary: string, content: string, open = false) =>
+  [
+    `<details${open ? ' open' : ''}>`,
+    `<summary>${summary}</summary>`,
+    '',
+    content,
+    '',
+    '</details>'
+  ].join('\n')
+
+// Links point at the commit being checked when running in GitHub Actions, so
+// that they work in pull request comments and job summaries
+export const getGitHubFileUrlPrefix = (
+  rootDir = process.cwd(),
+  env: { [name: string]: string | undefined } = process.env
+): string => {
+  const { GITHUB_REPOSITORY, GITHUB_SERVER_URL, GITHUB_SHA, GITHUB_WORKSPACE } =
+    env
+  if (
+    !GITHUB_REPOSITORY ||
+    !GITHUB_SERVER_URL ||
+    !GITHUB_SHA ||
+    !GITHUB_WORKSPACE
+  ) {
+    return ''
+  }
+  const directory = toPosixPath(relative(GITHUB_WORKSPACE, rootDir))
+  return `${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/blob/${GITHUB_SHA}/${
+    directory ? `${directory}/` : ''
+  }`
+}
+
+// A compact report meant to be rendered, e.g. in a pull request comment or a
+// GitHub Actions job summary. File links are relative unless a URL prefix for
+// the root directory is given.
+export const toMarkdownOutputFormat = (
+  errorSummaryMap: ErrorSummaryMap,
+  specificErrorMap: SpecificErrorsMap,
+  errorOptions: ErrorOptions,
+  fixedErrorSummaryMap: ErrorSummaryMap = new Map(),
+  baselineErrorsCount = 0,
+  fileUrlPrefix = ''
+): string => {
+  const newErrorsCount = getTotalErrorsCount(errorSummaryMap)
+  const fixedErrorsCount = getTotalErrorsCount(fixedErrorSummaryMap)
+  const netErrorsCount = newErrorsCount - fixedErrorsCount
+
+  const result = [
+    `### TypeScript errors: ${newErrorsCount} new, ${fixedErrorsCount} fixed`,
+    toMarkdownTable(
+      ['New', 'Fixed', 'Baseline', 'Net'],
+      [
+        [
+          `${newErrorsCount}`,
+          `${fixedErrorsCount}`,
+          `${baselineErrorsCount}`,
+          `${netErrorsCount > 0 ? '+' : ''}${netErrorsCount}`
+        ]
+      ]
+    )
+  ]
+
+  if (newErrorsCount > 0) {
+    const rows: string[][] = []
+    const countsByCode = new Map<string, number>()
+    for (const error of errorSummaryMap.values()) {
+      countsByCode.set(
+        error.code,
+        (countsByCode.get(error.code) ?? 0) + error.count
+      )
+      for (const specificError of getSpecificErrorsMatchingSummary(
+        error,
+        specificErrorMap,
+        errorOptions
+      )) {
+        const location = escapeMarkdownTableCell(
+          isGlobalError(specificError)
+            ? specificError.file
+            : `${specificError.file}:${specificError.line}:${specificError.column}`
+        )
+        rows.push([
+          isGlobalError(specificError)
+            ? location
+            : `[${location}](${fileUrlPrefix}${encodeURI(
+                specificError.file
+              )}#L${specificError.line})`,
+          specificError.code,
+          escapeMarkdownTableCell(
+            getErrorMessage(specificError, { ignoreMessages: false })
+          )
+        ])
+      }
+    }
+    result.push(
+      toMarkdownDetails(
+        `${pluralize(newErrorsCount, 'error')} not in the baseline`,
+        toMarkdownTable(['Location', 'Code', 'Message'], rows),
+        true
+      ),
+      toMarkdownDetails(
+        'Top regressions by error code',
+        toMarkdownTable(
+          ['Code', 'Errors'],
+          Array.from(countsByCode)
+            .sort(
+              ([a, aCount], [b, bCount]) =>
+                bCount - aCount || a.localeCompare(b)
+            )
+            .slice(0, MAX_MARKDOWN_REGRESSIONS)
+            .map(([code, count]) => [code, `${count}`])
+        )
+      )
+    )
+  }
+
+  if (fixedErrorsCount > 0) {
+    result.push(
+      toMarkdownDetails(
+        `${pluralize(fixedErrorsCount, 'error')} fixed`,
+        toMarkdownTable(
+          ['File', 'Code', 'Message', 'Errors'],
+          Array.from(fixedErrorSummaryMap.values()).map((error) => [
+            escapeMarkdownTableCell(error.file),
+            error.code,
+            escapeMarkdownTableCell(error.message ?? ''),
+            `${error.count}`
+          ])
+        )
+      )
+    )
+  }
+
+  return result.join('\n\n')
+}
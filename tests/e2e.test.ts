@@ -1,8 +1,16 @@
-import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterAll,
+  afterEach
+} from 'vitest'
 
 import fs from 'fs'
 import path from 'path'
-import { ExecException, exec } from 'child_process'
+import { ExecException, exec, execSync } from 'child_process'
 import { ErrorFormat } from '../src'
 
 /**
@@ -49,7 +57,15 @@ const cli = (
   new Promise((resolve) => {
     const cliProcess = exec(
       `node ${CLI_PATH} ${input}`,
-      { cwd },
+      {
+        cwd,
+        // Keeps git from finding this repository, so that the temporary
+        // directory only counts as one when a test initializes it
+        env: {
+          ...process.env,
+          GIT_CEILING_DIRECTORIES: path.resolve(cwd, '..')
+        }
+      },
       (error, stdout, stderr) => {
         resolve({
           code: error && error.code ? error.code : 0,
@@ -83,6 +99,38 @@ const removeIndent = (strings: TemplateStringsArray) => {
   return lines.map((line) => line.substring(leftPadding.length)).join('\n')
 }
 
+// Runs git in the temporary directory, without finding this repository
+const git = (args: string) =>
+  execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, {
+    cwd: tempDir,
+    env: {
+      ...process.env,
+      GIT_CEILING_DIRECTORIES: path.resolve(tempDir, '..')
+    }
+  })
+    .toString()
+    .trim()
+
+// Running the TypeScript compiler is much slower than parsing piped output
+const compilerTestTimeout = 30000
+
+const writeProject = (source: string) => {
+  fs.writeFileSync(
+    path.resolve(tempDir, 'tsconfig.json'),
+    JSON.stringify({
+      compilerOptions: {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        types: [],
+        lib: ['es5']
+      },
+      include: ['*.ts']
+    })
+  )
+  fs.writeFileSync(path.resolve(tempDir, 'index.ts'), source)
+}
+
 const basicTsErrorOutput = `yarn run v1.22.22
 $ tsc
 src/util.ts(134,7): error TS2322: Type 'number' is not assignable to type 'string'.
@@ -125,25 +173,50 @@ describe('End-to-end tests', () => {
       only show new errors.
 
       Options:
-        -p --path <path>           Path to file to save baseline errors to. Defaults
-                                   to .tsc-baseline.json
-        --ignoreMessages           Ignores specific type error messages and only
-                                   counts errors by code.
-        -h, --help                 display help for command
+        -p --path <path>                    Path to file to save baseline errors to.
+                                            Defaults to .tsc-baseline.json
+        --ignoreMessages                    Ignores specific type error messages and
+                                            only counts errors by code.
+        --includeMessageChain               Includes the indented continuation lines
+                                            of elaborated error messages when
+                                            matching errors.
+        --normalizeMessages                 Removes parts of error messages that
+                                            differ between machines and TypeScript
+                                            versions, such as absolute import paths
+                                            and type literals, before matching
+                                            errors.
+        --messageReplacement <replacement>  Replaces every match of a regular
+                                            expression in error messages before
+                                            matching errors, given as
+                                            <pattern>=<replacement>. Can be passed
+                                            multiple times.
+        --preciseMatching                   Records the location of each error when
+                                            saving so that new errors are reported
+                                            even if an error with the same message
+                                            was fixed.
+        --rootDir <rootDir>                 Directory that file paths in the baseline
+                                            are relative to. Defaults to the
+                                            directory of the tsconfig.json passed to
+                                            --project, or the current directory.
+        -h, --help                          display help for command
 
       Commands:
-        save [message]
+        save [options] [message]
         add [hash]
         check [options] [message]
+        trend [options]                     Shows how the number of errors changed
+                                            over the snapshots saved with --history.
+        stats [options]                     Summarizes the errors in the baseline
+                                            file to help pick which ones to fix next.
         clear
-        help [command]             display help for command
+        help [command]                      display help for command
       "
     `)
   })
 
   describe('save', () => {
     it('writes a file with no recorded errors when there are no TypeScript errors', async () => {
-      const output = await cli('save', ' ')
+      const output = await cli('save --allowEmptyInput', ' ')
 
       expect(output.error).toBeNull()
       expect(output.code).toBe(0)
@@ -156,13 +229,40 @@ describe('End-to-end tests', () => {
           "{
             \\"meta\\": {
               \\"baselineFileVersion\\": 1,
-              \\"ignoreMessages\\": false
+              \\"ignoreMessages\\": false,
+              \\"rootDir\\": \\".\\"
             },
             \\"errors\\": {}
           }"
         `)
     })
 
+    it('fails with a distinct exit code when no compiler output is received', async () => {
+      const output = await cli('save', '')
+
+      expect(output.code).toBe(2)
+      expect(output.stderr).toMatch(/No compiler output was received/)
+      expect(fs.existsSync(getBaselinePath())).toBe(false)
+    })
+
+    it('does not overwrite the baseline with the output of a crashed compiler', async () => {
+      await cli('save', basicTsErrorOutput)
+      const baselineFileContent = fs.readFileSync(getBaselinePath(), 'utf-8')
+      const output = await cli(
+        'save',
+        `Error: Debug Failure. False expression.
+    at Object.assertNever (/app/node_modules/typescript/lib/tsc.js:2243:15)`
+      )
+
+      expect(output.code).toBe(2)
+      expect(output.stderr).toMatch(
+        /The TypeScript compiler appears to have crashed/
+      )
+      expect(fs.readFileSync(getBaselinePath(), 'utf-8')).toBe(
+        baselineFileContent
+      )
+    })
+
     it('saves errors on separate lines so that it works well with version control', async () => {
       const saveOutput = await cli('save', basicTsErrorOutput)
       expect(saveOutput.code).toBe(0)
@@ -173,7 +273,8 @@ describe('End-to-end tests', () => {
         "{
           \\"meta\\": {
             \\"baselineFileVersion\\": 1,
-            \\"ignoreMessages\\": false
+            \\"ignoreMessages\\": false,
+            \\"rootDir\\": \\".\\"
           },
           \\"errors\\": {
             \\"74fbc5bc3645b575167c6eca966b224014ff7e42\\": {
@@ -187,6 +288,38 @@ describe('End-to-end tests', () => {
       `)
     })
 
+    it('appends a snapshot to the history file with --history', async () => {
+      const historyFilePath = path.resolve(
+        tempDir,
+        '.tsc-baseline.history.jsonl'
+      )
+      await cli('save --history', basicTsErrorOutput)
+      await cli(
+        'save --history',
+        basicTsErrorOutput +
+          "\nsrc/cli.ts(1,1): error TS7006: Parameter 'x' implicitly has an 'any' type."
+      )
+
+      const csvOutput = await cli('trend --format csv')
+      const tableOutput = await cli('trend')
+      const htmlOutput = await cli('trend --format html')
+      fs.rmSync(historyFilePath)
+
+      expect(
+        csvOutput.stdout.replace(/^\d{4}-\d\d-\d\dT[\d:.]+Z/gm, '<timestamp>')
+      ).toBe(
+        removeIndent`
+          timestamp,commit,totalErrors,TS2322,TS7006
+          <timestamp>,,1,1,0
+          <timestamp>,,2,1,1
+        `.trimStart()
+      )
+      expect(tableOutput.stdout).toMatch(
+        /Errors {2}Change\n.+ {7}1 {7}-\n.+ {7}2 {6}\+1/
+      )
+      expect(htmlOutput.stdout).toContain('<svg')
+    })
+
     it('properly handles a flag to ignore error messages', async () => {
       const saveOutput = await cli('save --ignoreMessages', basicTsErrorOutput)
       expect(saveOutput.code).toBe(0)
@@ -196,7 +329,8 @@ describe('End-to-end tests', () => {
         "{
           \\"meta\\": {
             \\"baselineFileVersion\\": 1,
-            \\"ignoreMessages\\": true
+            \\"ignoreMessages\\": true,
+            \\"rootDir\\": \\".\\"
           },
           \\"errors\\": {
             \\"4ea57c4c703d8b1df2807230c82ed3a0610c013f\\": {
@@ -210,6 +344,51 @@ describe('End-to-end tests', () => {
     })
   })
 
+  describe('trend', () => {
+    it('fails to show a trend without a history file', async () => {
+      const output = await cli('trend')
+
+      expect(output.code).toBe(1)
+      expect(output.stderr).toContain('No snapshots found in')
+    })
+  })
+
+  describe('stats', () => {
+    it('summarizes the errors in the baseline', async () => {
+      await cli(
+        'save',
+        basicTsErrorOutput +
+          "\nsrc/legacy/cli.ts(1,1): error TS7006: Parameter 'x' implicitly has an 'any' type."
+      )
+      const output = await cli('stats --top 1')
+
+      expect(output.code).toBe(0)
+      expect(output.stdout).toMatchInlineSnapshot(`
+        "2 errors in 2 files.
+
+        Files              Errors
+        src/legacy/cli.ts       1
+
+        Error codes  Errors
+        TS2322            1
+
+        Messages                                                   Errors
+        TS2322: Type 'number' is not assignable to type 'string'.       1
+
+        Directories  Errors
+        src               2
+        "
+      `)
+    })
+
+    it('fails without a baseline file', async () => {
+      const output = await cli('stats')
+
+      expect(output.code).toBe(1)
+      expect(output.stderr).toContain('Unable to read the .tsc-baseline.json')
+    })
+  })
+
   describe('check', () => {
     it('does not show errors if all the errors already exist', async () => {
       await cli('save', basicTsErrorOutput)
@@ -225,7 +404,7 @@ describe('End-to-end tests', () => {
     })
 
     it('fails if there were no errors previously and now there is one', async () => {
-      await cli('save', ' ')
+      await cli('save --allowEmptyInput', ' ')
       const checkOutput = await cli('check', basicTsErrorOutput)
       expect(checkOutput.code).toBe(1)
       expect(checkOutput.stderr).toMatchInlineSnapshot(`
@@ -240,6 +419,7 @@ describe('End-to-end tests', () => {
         src/util.ts(134,7)
 
         1 new error found. 0 errors already in baseline.
+        +1 error vs baseline.
         "
       `)
     })
@@ -275,6 +455,7 @@ describe('End-to-end tests', () => {
         src/util.ts(135,7)
 
         1 new error found. 1 error already in baseline.
+        +1 error vs baseline.
         "
       `)
     })
@@ -336,6 +517,57 @@ describe('End-to-end tests', () => {
       })
     })
 
+    it('reports new errors without a file location', async () => {
+      await cli('save', basicTsErrorOutput)
+      const checkOutput = await cli(
+        'check',
+        `error TS2688: Cannot find type definition file for 'jest'.\n${basicTsErrorOutput}`
+      )
+      expect(checkOutput.code).toBe(1)
+      expect(checkOutput.stderr).toMatchInlineSnapshot(`
+        "
+        New errors found:
+        File: <global>
+        Message: Cannot find type definition file for 'jest'.
+        Code: TS2688
+        Hash: 7186f3824178e48e5f8db0620b9191ee7a40714c
+        Count of new errors: 1
+        1 current error:
+        <global>
+
+        1 new error found. 1 error already in baseline.
+        +1 error vs baseline.
+        "
+      `)
+    })
+
+    describe('compiler output validation', () => {
+      it('fails with a distinct exit code when no compiler output is received', async () => {
+        await cli('save', basicTsErrorOutput)
+        const checkOutput = await cli('check', '')
+        expect(checkOutput.code).toBe(2)
+        expect(checkOutput.stderr).toMatch(/No compiler output was received/)
+      })
+
+      it('allows empty input with a flag', async () => {
+        await cli('save --allowEmptyInput', ' ')
+        const checkOutput = await cli('check --allowEmptyInput', '')
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 0 errors already in baseline./
+        )
+      })
+
+      it('fails with a distinct exit code when the input is not compiler output', async () => {
+        await cli('save', basicTsErrorOutput)
+        const checkOutput = await cli('check', 'command not found: tsc')
+        expect(checkOutput.code).toBe(2)
+        expect(checkOutput.stderr).toMatch(
+          /The input does not look like output from the TypeScript compiler:\n {2}command not found: tsc/
+        )
+      })
+    })
+
     describe('--ignoreMessages flag', () => {
       it('does not show errors if all the errors already exist', async () => {
         await cli('save --ignoreMessages', basicTsErrorOutput)
@@ -381,11 +613,546 @@ describe('End-to-end tests', () => {
           src/util.ts(135,7)
 
           1 new error found. 1 error already in baseline.
+          +1 error vs baseline.
           "
         `)
       })
     })
 
+    describe('--ratchet flag', () => {
+      const originalErrors = removeIndent`
+        src/util.ts(13,17): error TS2322: Type 'number' is not assignable to type 'string'.
+        src/util.ts(14,17): error TS2322: Type 'number' is not assignable to type 'string'.
+        src/index.ts(1,1): error TS1128: Declaration or statement expected.
+      `
+
+      it('removes fixed errors from the baseline', async () => {
+        await cli('save', originalErrors)
+        const checkOutput = await cli('check --ratchet', basicTsErrorOutput)
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          `Ratcheted the baseline file at '${getBaselinePath()}'.\n2 errors burned down.`
+        )
+        expect(
+          JSON.parse(fs.readFileSync(getBaselinePath(), 'utf-8')).errors
+        ).toEqual({
+          '74fbc5bc3645b575167c6eca966b224014ff7e42': {
+            file: 'src/util.ts',
+            code: 'TS2322',
+            count: 1,
+            message: "Type 'number' is not assignable to type 'string'."
+          }
+        })
+      })
+
+      it('does not change the baseline when there are new errors', async () => {
+        await cli('save', originalErrors)
+        const baselineFileContent = fs.readFileSync(getBaselinePath(), 'utf-8')
+        const checkOutput = await cli(
+          'check --ratchet',
+          `${basicTsErrorOutput}\nsrc/other.ts(1,1): error TS1128: Declaration or statement expected.`
+        )
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).not.toMatch(/Ratcheted/)
+        expect(fs.readFileSync(getBaselinePath(), 'utf-8')).toBe(
+          baselineFileContent
+        )
+      })
+
+      it('keeps baseline errors outside of --include when ratcheting', async () => {
+        await cli(
+          'save',
+          `${originalErrors}\nlegacy/b.ts(1,1): error TS1128: Declaration or statement expected.`
+        )
+        const checkOutput = await cli(
+          'check --include "src/**" --ratchet',
+          basicTsErrorOutput
+        )
+        const baselineFile = JSON.parse(
+          fs.readFileSync(getBaselinePath(), 'utf-8')
+        )
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(/2 errors burned down./)
+        expect(baselineFile.meta.include).toBeUndefined()
+        expect(
+          Object.values(baselineFile.errors).map(
+            ({ file, count }: any) => `${file}: ${count}`
+          )
+        ).toEqual(['src/util.ts: 1', 'legacy/b.ts: 1'])
+      })
+    })
+
+    describe('--include and --exclude options', () => {
+      const errorOutput = removeIndent`
+        src/index.ts(1,1): error TS1128: Declaration or statement expected.
+        src/generated/api.ts(1,1): error TS1128: Declaration or statement expected.
+      `
+
+      it('leaves out errors in excluded files when saving and checking', async () => {
+        await cli('save --exclude "src/generated/**"', errorOutput)
+        const baselineFile = JSON.parse(
+          fs.readFileSync(getBaselinePath(), 'utf-8')
+        )
+        expect(baselineFile.meta.exclude).toEqual(['src/generated/**'])
+        expect(Object.values(baselineFile.errors)).toEqual([
+          expect.objectContaining({ file: 'src/index.ts' })
+        ])
+
+        const checkOutput = await cli(
+          'check',
+          `${errorOutput}\nsrc/generated/other.ts(1,1): error TS1128: Declaration or statement expected.`
+        )
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 1 error already in baseline./
+        )
+      })
+
+      it('only checks included files', async () => {
+        await cli(
+          'save',
+          'src/index.ts(1,1): error TS1128: Declaration or statement expected.'
+        )
+        const checkOutput = await cli(
+          'check --include "src/new-module/**"',
+          `${errorOutput}\nsrc/new-module/index.ts(1,1): error TS1128: Declaration or statement expected.`
+        )
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toMatch(/File: src\/new-module\/index.ts/)
+        expect(checkOutput.stderr).toMatch(
+          /1 new error found. 0 errors already in baseline./
+        )
+      })
+
+      it('leaves out excluded baseline errors from the JSON totals', async () => {
+        await cli('save', errorOutput)
+        const checkOutput = await cli(
+          `check --exclude "src/generated/**" --error-format ${ErrorFormat.JSON}`,
+          errorOutput
+        )
+        const result = JSON.parse(checkOutput.stderr)
+
+        expect(result.totals).toEqual({
+          baselineErrors: 1,
+          currentErrors: 1,
+          fixedErrors: 0,
+          newErrors: 0
+        })
+        expect(Object.keys(result.files)).toEqual(['src/index.ts'])
+      })
+    })
+
+    describe('--strictZones option', () => {
+      const errorOutput = removeIndent`
+        src/legacy/index.ts(1,1): error TS1128: Declaration or statement expected.
+        src/clean/index.ts(1,1): error TS1128: Declaration or statement expected.
+      `
+
+      it('fails on baselined errors in strict zones', async () => {
+        await cli('save', errorOutput)
+        const checkOutput = await cli(
+          'check --strictZones "src/clean/**"',
+          errorOutput
+        )
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toMatch(/File: src\/clean\/index.ts/)
+        expect(checkOutput.stderr).toMatch(
+          /1 new error found. 1 error already in baseline.\n1 new error is in strict zones, where no errors are permitted./
+        )
+      })
+
+      it('refuses to save errors in strict zones', async () => {
+        const saveOutput = await cli(
+          'save --strictZones "src/clean/**"',
+          errorOutput
+        )
+
+        expect(saveOutput.code).toBe(1)
+        expect(saveOutput.stderr).toMatch(
+          /Errors are not permitted in strict zones:\nFile: src\/clean\/index.ts/
+        )
+        expect(fs.existsSync(getBaselinePath())).toBe(false)
+      })
+
+      it('keeps enforcing strict zones saved in the baseline', async () => {
+        await cli(
+          'save --strictZones "src/clean/**"',
+          'src/legacy/index.ts(1,1): error TS1128: Declaration or statement expected.'
+        )
+        expect(
+          JSON.parse(fs.readFileSync(getBaselinePath(), 'utf-8')).meta
+            .strictZones
+        ).toEqual(['src/clean/**'])
+
+        const checkOutput = await cli('check', errorOutput)
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toMatch(
+          /1 new error is in strict zones, where no errors are permitted./
+        )
+      })
+    })
+
+    describe('error budgets', () => {
+      const newErrorOutput = `${basicTsErrorOutput}\nsrc/other.ts(1,1): error TS1128: Declaration or statement expected.`
+
+      it('passes when the new errors are within the budget', async () => {
+        await cli('save', basicTsErrorOutput)
+        const checkOutput = await cli('check --maxNewErrors 1', newErrorOutput)
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /1 new error is within the error budget./
+        )
+      })
+
+      it('fails when a per-code budget is exceeded', async () => {
+        fs.writeFileSync(
+          path.resolve(tempDir, 'tsc-baseline.config.json'),
+          JSON.stringify({
+            maxNewErrors: 5,
+            maxNewErrorsPerCode: { TS1128: 0 }
+          })
+        )
+        try {
+          await cli('save', basicTsErrorOutput)
+          const checkOutput = await cli('check', newErrorOutput)
+
+          expect(checkOutput.code).toBe(1)
+          expect(checkOutput.stderr).toMatch(
+            /Error budget exceeded: 1 new TS1128 error, the limit is 0./
+          )
+        } finally {
+          fs.rmSync(path.resolve(tempDir, 'tsc-baseline.config.json'))
+        }
+      })
+
+      it('fails with a distinct exit code when the total budget is exceeded', async () => {
+        await cli('save', newErrorOutput)
+        const checkOutput = await cli(
+          'check --maxTotalErrors 1',
+          newErrorOutput
+        )
+
+        expect(checkOutput.code).toBe(3)
+        expect(checkOutput.stderr).toMatch(
+          /Error budget exceeded: 2 errors in total, the limit is 1./
+        )
+      })
+    })
+
+    describe('message normalization', () => {
+      it('matches errors whose messages only differ in normalized parts', async () => {
+        await cli(
+          'save --normalizeMessages',
+          `src/index.ts(1,7): error TS2322: Type 'import("/home/a/project/src/types").Id' is not assignable to type 'string'.`
+        )
+        const checkOutput = await cli(
+          'check',
+          `src/index.ts(1,7): error TS2322: Type 'import("/home/b/project/src/types").Id' is not assignable to type 'string'.`
+        )
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 1 error already in baseline./
+        )
+      })
+
+      it('applies message replacements saved in the baseline', async () => {
+        await cli(
+          `save --messageReplacement "'\\d+'='<number>'"`,
+          `src/index.ts(1,7): error TS2345: Argument of type '1' is not assignable to parameter of type 'string'.`
+        )
+        expect(
+          JSON.parse(fs.readFileSync(getBaselinePath(), 'utf-8')).meta
+            .messageReplacements
+        ).toEqual([{ pattern: "'\\d+'", replacement: "'<number>'" }])
+
+        const checkOutput = await cli(
+          'check',
+          `src/index.ts(1,7): error TS2345: Argument of type '2' is not assignable to parameter of type 'string'.`
+        )
+        expect(checkOutput.code).toBe(0)
+      })
+
+      it('rejects invalid regular expressions', async () => {
+        const saveOutput = await cli(
+          'save --messageReplacement "(=x"',
+          basicTsErrorOutput
+        )
+
+        expect(saveOutput.code).toBe(1)
+        expect(saveOutput.stderr).toMatch(
+          /option '--messageReplacement <replacement>' argument '\(=x' is invalid/
+        )
+      })
+    })
+
+    describe('--preciseMatching flag', () => {
+      const sourcePath = () => path.resolve(tempDir, 'precise.ts')
+      const toErrorOutput = (lines: number[]) =>
+        lines
+          .map(
+            (line) =>
+              `precise.ts(${line},7): error TS2322: Type 'number' is not assignable to type 'string'.`
+          )
+          .join('\n')
+
+      afterEach(() => {
+        fs.rmSync(sourcePath())
+      })
+
+      it('reports a new error even if another one with the same message was fixed', async () => {
+        fs.writeFileSync(
+          sourcePath(),
+          "const a: string = 1\nconst b: string = 2\nconst c = 'c'\n"
+        )
+        await cli('save --preciseMatching', toErrorOutput([1, 2]))
+        expect(
+          JSON.parse(fs.readFileSync(getBaselinePath(), 'utf-8')).meta
+        ).toEqual({
+          baselineFileVersion: 1,
+          ignoreMessages: false,
+          preciseMatching: true,
+          rootDir: '.'
+        })
+
+        fs.writeFileSync(
+          sourcePath(),
+          "const a: string = 1\nconst b: string = '2'\nconst c: string = 3\n"
+        )
+        const checkOutput = await cli('check', toErrorOutput([1, 3]))
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toMatch(
+          /Count of new errors: 1\n1 current error:\nprecise.ts\(3,7\)\n/
+        )
+        expect(checkOutput.stderr).toMatch(
+          /1 new error found. 2 errors already in baseline./
+        )
+        expect(checkOutput.stderr).toMatch(/1 error fixed./)
+      })
+
+      it('matches errors that moved to a different line', async () => {
+        fs.writeFileSync(
+          sourcePath(),
+          'const a: string = 1\nconst b: string = 2\n'
+        )
+        await cli('save --preciseMatching', toErrorOutput([1, 2]))
+
+        fs.writeFileSync(
+          sourcePath(),
+          "import 'fs'\n\nconst b: string = 2\n\nconst a: string = 1\n"
+        )
+        const checkOutput = await cli('check', toErrorOutput([3, 5]))
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 2 errors already in baseline./
+        )
+      })
+    })
+
+    describe('--rootDir option', () => {
+      const subDir = () => path.resolve(tempDir, 'src')
+
+      afterEach(() => {
+        fs.rmSync(subDir(), { recursive: true })
+      })
+
+      it('matches errors printed relative to a different directory', async () => {
+        fs.mkdirSync(subDir())
+        await cli(
+          'save',
+          "src/index.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'."
+        )
+        const checkOutput = await cli(
+          `check -p ${getBaselinePath()}`,
+          "index.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.",
+          subDir()
+        )
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 1 error already in baseline./
+        )
+      })
+
+      it('saves paths relative to the given directory', async () => {
+        fs.mkdirSync(subDir())
+        await cli(
+          'save --rootDir src',
+          "src/index.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'."
+        )
+        const baselineFile = JSON.parse(
+          fs.readFileSync(getBaselinePath(), 'utf-8')
+        )
+
+        expect(baselineFile.meta.rootDir).toBe('src')
+        expect(Object.values(baselineFile.errors)).toEqual([
+          expect.objectContaining({ file: 'index.ts' })
+        ])
+      })
+    })
+
+    describe('renamed files', () => {
+      afterEach(() => {
+        fs.rmSync(path.resolve(tempDir, '.git'), { recursive: true })
+        fs.rmSync(path.resolve(tempDir, 'renamed.ts'))
+      })
+
+      it('matches baseline errors of files renamed since the baseline was saved', async () => {
+        git('init --quiet')
+        fs.writeFileSync(
+          path.resolve(tempDir, 'original.ts'),
+          'const a: string = 1\n'
+        )
+        git('add original.ts')
+        git('commit --quiet -m original')
+        await cli(
+          'save',
+          "original.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'."
+        )
+        expect(
+          JSON.parse(fs.readFileSync(getBaselinePath(), 'utf-8')).meta.commit
+        ).toMatch(/^[0-9a-f]{40}$/)
+
+        git('mv original.ts renamed.ts')
+        git('commit --quiet -m renamed')
+        const checkOutput = await cli(
+          'check',
+          "renamed.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'."
+        )
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 1 error already in baseline./
+        )
+      })
+    })
+
+    describe('--changed-since option', () => {
+      const writeSource = (file: string, source: string) =>
+        fs.writeFileSync(path.resolve(tempDir, file), source)
+
+      const baselineErrors =
+        'other.ts(1,1): error TS1128: Declaration or statement expected.'
+
+      let baseCommit: string
+
+      beforeEach(() => {
+        git('init --quiet')
+        writeSource('changed.ts', 'const a = 1\n')
+        writeSource('unchanged.ts', 'const b = 1\n')
+        git('add changed.ts unchanged.ts')
+        git('commit --quiet -m base')
+        baseCommit = git('rev-parse HEAD')
+        writeSource('changed.ts', 'const a = 1\nconst c: string = 1\n')
+      })
+
+      afterEach(() => {
+        fs.rmSync(path.resolve(tempDir, '.git'), { recursive: true })
+        fs.rmSync(path.resolve(tempDir, 'changed.ts'))
+        fs.rmSync(path.resolve(tempDir, 'unchanged.ts'))
+      })
+
+      const newErrors = [
+        "changed.ts(1,7): error TS6133: 'a' is declared but its value is never read.",
+        "changed.ts(2,7): error TS2322: Type 'number' is not assignable to type 'string'.",
+        "unchanged.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'."
+      ].join('\n')
+
+      it('only fails on new errors in changed files', async () => {
+        await cli('save', baselineErrors)
+        const checkOutput = await cli(
+          `check --changed-since ${baseCommit}`,
+          newErrors
+        )
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toContain('2 new errors found.')
+        expect(checkOutput.stderr).not.toContain('unchanged.ts(1,7)')
+        expect(checkOutput.stderr).toContain(
+          `1 new error outside of the changes since '${baseCommit}' did not fail the check:\nunchanged.ts: 1`
+        )
+      })
+
+      it('only fails on new errors on changed lines with --changed-lines', async () => {
+        await cli('save', baselineErrors)
+        const checkOutput = await cli(
+          `check --changed-since ${baseCommit} --changed-lines`,
+          newErrors
+        )
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toContain('1 new error found.')
+        expect(checkOutput.stderr).toContain(
+          `2 new errors outside of the changes since '${baseCommit}' did not fail the check:\nchanged.ts: 1\nunchanged.ts: 1`
+        )
+      })
+
+      it('fails when --changed-lines is used without --changed-since', async () => {
+        await cli('save', baselineErrors)
+        const checkOutput = await cli('check --changed-lines', newErrors)
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toContain(
+          '--changed-lines can only be used with --changed-since.'
+        )
+      })
+
+      it('passes when new errors are only outside of the changes', async () => {
+        await cli('save', baselineErrors)
+        const checkOutput = await cli(
+          `check --changed-since ${baseCommit}`,
+          "unchanged.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'."
+        )
+
+        expect(checkOutput.code).toBe(0)
+      })
+
+      it('does not ratchet the baseline when there are new errors outside of the changes', async () => {
+        const baselineErrors = [
+          "unchanged.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.",
+          'other.ts(1,1): error TS1128: Declaration or statement expected.'
+        ].join('\n')
+        await cli('save --preciseMatching', baselineErrors)
+        const baselineFile = fs.readFileSync(getBaselinePath(), 'utf-8')
+
+        const checkOutput = await cli(
+          `check --changed-since ${baseCommit} --ratchet`,
+          [
+            "unchanged.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.",
+            "unchanged.ts(1,11): error TS2322: Type 'number' is not assignable to type 'string'."
+          ].join('\n')
+        )
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toContain(
+          `1 new error outside of the changes since '${baseCommit}' did not fail the check`
+        )
+        expect(checkOutput.stderr).not.toContain('Ratcheted')
+        expect(fs.readFileSync(getBaselinePath(), 'utf-8')).toBe(baselineFile)
+      })
+
+      it('fails when the ref does not exist', async () => {
+        await cli('save', baselineErrors)
+        const checkOutput = await cli(
+          'check --changed-since missing-ref',
+          newErrors
+        )
+
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toContain(
+          "Unable to list the files changed since 'missing-ref'"
+        )
+      })
+    })
+
     describe('--reportUnmatchedIgnoredErrors flag', () => {
       it('does reports unmatched errors also when new errors do not match baseline errors', async () => {
         const originalErrors = removeIndent`
@@ -421,6 +1188,14 @@ describe('End-to-end tests', () => {
 
           1 new error found. 1 error already in baseline.
 
+          Fixed errors:
+          File: src/util.ts
+          Message: Type 'number' is not assignable to type 'string'.
+          Code: TS2322
+          Hash: 74fbc5bc3645b575167c6eca966b224014ff7e42
+
+          1 error fixed.
+
           Unmatched ignored errors:
           File: src/util.ts
           Message: Type 'number' is not assignable to type 'string'.
@@ -457,6 +1232,15 @@ describe('End-to-end tests', () => {
 
           0 new errors found. 1 error already in baseline.
 
+          Fixed errors:
+          File: src/util.ts
+          Message: Type 'number' is not assignable to type 'string'.
+          Code: TS2322
+          Hash: 74fbc5bc3645b575167c6eca966b224014ff7e42
+
+          1 error fixed.
+          -1 error vs baseline.
+
           Unmatched ignored errors:
           File: src/util.ts
           Message: Type 'number' is not assignable to type 'string'.
@@ -468,6 +1252,23 @@ describe('End-to-end tests', () => {
         `)
       })
 
+      it('only warns about unmatched errors with --warnOnUnmatchedIgnoredErrors', async () => {
+        await cli('save', basicTsErrorOutput)
+
+        const checkOutput = await cli(
+          'check --warnOnUnmatchedIgnoredErrors',
+          '> tsc'
+        )
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /Unmatched ignored errors \(warning\):/
+        )
+        expect(checkOutput.stderr).toMatch(
+          /Count of unmatched ignored errors: 1/
+        )
+      })
+
       it('does not report unmatched errors when there are no new errors and no unmatched errors', async () => {
         const originalErrors = removeIndent`
           > tsc-baseline@1.4.0 type-check
@@ -489,6 +1290,15 @@ describe('End-to-end tests', () => {
 
 
           0 new errors found. 1 error already in baseline.
+
+          Fixed errors:
+          File: src/util.ts
+          Message: Type 'number' is not assignable to type 'string'.
+          Code: TS2322
+          Hash: 74fbc5bc3645b575167c6eca966b224014ff7e42
+
+          1 error fixed.
+          -1 error vs baseline.
           "
         `)
       })
@@ -527,11 +1337,35 @@ describe('End-to-end tests', () => {
           src/util.ts(135,7)
 
           1 new error found. 1 error already in baseline.
+          +1 error vs baseline.
           "
         `)
       })
     })
 
+    it('writes an HTML report with --html', async () => {
+      const htmlReportPath = path.resolve(tempDir, 'report.html')
+      await cli('save', basicTsErrorOutput)
+      const checkOutput = await cli(
+        'check --html report.html',
+        basicTsErrorOutput +
+          "\nsrc/cli.ts(1,1): error TS7006: Parameter 'x' implicitly has an 'any' type."
+      )
+      const html = fs.readFileSync(htmlReportPath, 'utf-8')
+      fs.rmSync(htmlReportPath)
+
+      expect(checkOutput.code).toBe(1)
+      expect(checkOutput.stderr).toContain(
+        `Saved HTML report to '${htmlReportPath}'`
+      )
+      expect(html).toContain(
+        '<p>New errors: 1 &middot; Fixed errors: 0 &middot; Baselined errors: 1</p>'
+      )
+      expect(html).toContain(
+        '<figcaption>src/cli.ts(1,1)</figcaption></figure>'
+      )
+    })
+
     describe('--error-format option', () => {
       it('fails with an invalid error format', async () => {
         const invalidErrorFormat: string = 'invalid-format'
@@ -559,7 +1393,7 @@ describe('End-to-end tests', () => {
       )
 
       it('has expected gitlab output', async () => {
-        await cli('save', ' ')
+        await cli('save --allowEmptyInput', ' ')
         const checkOutput = await cli(
           `check --error-format ${ErrorFormat.GITLAB}`,
           basicTsErrorOutput
@@ -584,6 +1418,95 @@ describe('End-to-end tests', () => {
         `)
       })
 
+      it('has expected json output', async () => {
+        await cli(
+          'save',
+          removeIndent`
+            src/util.ts(13,17): error TS2322: Type 'number' is not assignable to type 'string'.
+            src/index.ts(1,1): error TS1128: Declaration or statement expected.
+          `
+        )
+        const checkOutput = await cli(
+          `check --error-format ${ErrorFormat.JSON}`,
+          basicTsErrorOutput +
+            "\nsrc/util.ts(135,7): error TS2322: Type '{ invalid: number; }' is not assignable to type 'number'."
+        )
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toMatchInlineSnapshot(`
+          "{
+            \\"version\\": 1,
+            \\"baseline\\": {
+              \\"baselineFileVersion\\": 1,
+              \\"ignoreMessages\\": false,
+              \\"rootDir\\": \\".\\"
+            },
+            \\"totals\\": {
+              \\"baselineErrors\\": 2,
+              \\"currentErrors\\": 2,
+              \\"fixedErrors\\": 1,
+              \\"newErrors\\": 1
+            },
+            \\"newErrors\\": [
+              {
+                \\"hash\\": \\"c1b4ab07321ca58aac93307f3be23bc0a8592ee7\\",
+                \\"file\\": \\"src/util.ts\\",
+                \\"code\\": \\"TS2322\\",
+                \\"message\\": \\"Type '{ invalid: number; }' is not assignable to type 'number'.\\",
+                \\"count\\": 1,
+                \\"locations\\": [
+                  {
+                    \\"line\\": 135,
+                    \\"column\\": 7
+                  }
+                ]
+              }
+            ],
+            \\"fixedErrors\\": [
+              {
+                \\"hash\\": \\"bf021499ea6fa4b63182a6ba8843d460278d0083\\",
+                \\"file\\": \\"src/index.ts\\",
+                \\"code\\": \\"TS1128\\",
+                \\"message\\": \\"Declaration or statement expected.\\",
+                \\"count\\": 1
+              }
+            ],
+            \\"files\\": {
+              \\"src/util.ts\\": {
+                \\"baselineErrors\\": 1,
+                \\"currentErrors\\": 2,
+                \\"fixedErrors\\": 0,
+                \\"newErrors\\": 1
+              },
+              \\"src/index.ts\\": {
+                \\"baselineErrors\\": 1,
+                \\"currentErrors\\": 0,
+                \\"fixedErrors\\": 1,
+                \\"newErrors\\": 0
+              }
+            }
+          }
+          "
+        `)
+      })
+
+      it('writes the report to a file with --report-file', async () => {
+        await cli('save --allowEmptyInput', ' ')
+        const checkOutput = await cli(
+          `check --error-format ${ErrorFormat.JUNIT} --report-file report.xml`,
+          basicTsErrorOutput
+        )
+        const reportPath = path.resolve(tempDir, 'report.xml')
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toMatch(
+          /1 new error found. 0 errors already in baseline./
+        )
+        expect(checkOutput.stderr).toMatch(`Saved report to '${reportPath}'`)
+        expect(fs.readFileSync(reportPath, 'utf-8')).toMatch(
+          /<testsuite name="src\/util.ts" tests="1" failures="1">/
+        )
+        fs.rmSync(reportPath)
+      })
+
       it('no new gitlab errors', async () => {
         await cli('save', basicTsErrorOutput)
         const checkOutput = await cli(
@@ -598,4 +1521,282 @@ describe('End-to-end tests', () => {
       })
     })
   })
+  describe('configuration file', () => {
+    const otherTsErrorOutput =
+      'src/other.ts(1,1): error TS1128: Declaration or statement expected.'
+
+    afterEach(() => {
+      for (const fileName of [
+        'tsc-baseline.config.json',
+        'tsc-baseline.config.ts',
+        'tsc-baseline.config.js',
+        'package.json',
+        'custom-baseline.json'
+      ]) {
+        const filepath = path.resolve(tempDir, fileName)
+        if (fs.existsSync(filepath)) {
+          fs.rmSync(filepath)
+        }
+      }
+    })
+
+    it('reads settings from tsc-baseline.config.json', async () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.json'),
+        JSON.stringify({ path: 'custom-baseline.json', ignoreMessages: true })
+      )
+      await cli('save', basicTsErrorOutput)
+
+      expect(
+        JSON.parse(
+          fs.readFileSync(
+            path.resolve(tempDir, 'custom-baseline.json'),
+            'utf-8'
+          )
+        ).meta.ignoreMessages
+      ).toBe(true)
+      expect(fs.existsSync(getBaselinePath())).toBe(false)
+    })
+
+    it('reads settings from the tscBaseline key in package.json', async () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'package.json'),
+        JSON.stringify({ tscBaseline: { errorFormat: 'tsc' } })
+      )
+      await cli('save', otherTsErrorOutput)
+      const checkOutput = await cli('check', basicTsErrorOutput)
+
+      expect(checkOutput.stderr.trim()).toBe(
+        "src/util.ts(134,7): error TS2322: Type 'number' is not assignable to type 'string'."
+      )
+    })
+
+    it('reads settings from tsc-baseline.config.ts', async () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.ts'),
+        "const errorFormat: string = 'tsc'\nexport default { errorFormat }\n"
+      )
+      await cli('save', otherTsErrorOutput)
+      const checkOutput = await cli('check', basicTsErrorOutput)
+
+      expect(checkOutput.stderr).toMatch(/^src\/util.ts\(134,7\): error TS2322/)
+      expect(
+        fs.readdirSync(tempDir).filter((fileName) => fileName.endsWith('.mjs'))
+      ).toEqual([])
+    })
+
+    it('lets CLI flags override the configuration file', async () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.json'),
+        JSON.stringify({ errorFormat: 'tsc' })
+      )
+      await cli('save', otherTsErrorOutput)
+      const checkOutput = await cli(
+        'check --error-format human',
+        basicTsErrorOutput
+      )
+
+      expect(checkOutput.stderr).toMatch(/Count of new errors: 1/)
+    })
+
+    it('fails on invalid settings', async () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.json'),
+        JSON.stringify({ ignoreMessage: true })
+      )
+      const saveOutput = await cli('save', basicTsErrorOutput)
+
+      expect(saveOutput.code).toBe(1)
+      expect(saveOutput.stderr).toMatch(
+        /Invalid tsc-baseline configuration in ".*tsc-baseline.config.json": unknown option "ignoreMessage"./
+      )
+    })
+
+    it('fails on invalid regular expressions in messageReplacements', async () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.json'),
+        JSON.stringify({
+          messageReplacements: [{ pattern: '(', replacement: '' }]
+        })
+      )
+      const saveOutput = await cli('save', basicTsErrorOutput)
+
+      expect(saveOutput.code).toBe(1)
+      expect(saveOutput.stderr).toMatch(
+        /expected "messageReplacements" to be a list of \{ pattern, replacement \} objects with valid regular expressions./
+      )
+      expect(fs.existsSync(getBaselinePath())).toBe(false)
+    })
+
+    it('applies severity rules by error code', async () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.json'),
+        JSON.stringify({ severity: { TS1128: 'off', TS2322: 'warning' } })
+      )
+      await cli('save', otherTsErrorOutput)
+      expect(
+        JSON.parse(fs.readFileSync(getBaselinePath(), 'utf-8')).errors
+      ).toEqual({})
+
+      const checkOutput = await cli(
+        'check',
+        `${basicTsErrorOutput}\n${otherTsErrorOutput}`
+      )
+
+      expect(checkOutput.code).toBe(0)
+      expect(checkOutput.stderr).toMatch(/1 new error found./)
+      expect(checkOutput.stderr).toMatch(
+        /1 new error is a warning by the severity rules and did not fail the check./
+      )
+
+      const githubOutput = await cli(
+        `check --error-format ${ErrorFormat.GITHUB}`,
+        `${basicTsErrorOutput}\n${otherTsErrorOutput}`
+      )
+
+      expect(githubOutput.stderr).toMatch(/::warning file=src\/util.ts,/)
+    })
+
+    it('keeps baseline errors turned off by severity rules when ratcheting', async () => {
+      await cli('save', `${basicTsErrorOutput}\n${otherTsErrorOutput}`)
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.json'),
+        JSON.stringify({ severity: { TS2322: 'off' } })
+      )
+      const checkOutput = await cli('check --ratchet', basicTsErrorOutput)
+
+      expect(checkOutput.stderr).toMatch(/1 error burned down./)
+      expect(
+        Object.values(
+          JSON.parse(fs.readFileSync(getBaselinePath(), 'utf-8')).errors
+        ).map(({ code }: any) => code)
+      ).toEqual(['TS2322'])
+    })
+
+    it('skips malformed package.json files in parent directories', async () => {
+      const projectDir = path.resolve(tempDir, 'project')
+      fs.mkdirSync(projectDir)
+      fs.writeFileSync(path.resolve(tempDir, 'package.json'), '{')
+      const saveOutput = await cli('save', basicTsErrorOutput, projectDir)
+      fs.rmSync(projectDir, { recursive: true })
+
+      expect(saveOutput.code).toBe(0)
+    })
+
+    it('loads a JavaScript configuration file from the CommonJS build', () => {
+      fs.writeFileSync(
+        path.resolve(tempDir, 'tsc-baseline.config.js'),
+        "export default { errorFormat: 'tsc' }\n"
+      )
+      const output = execSync(
+        `node -e "require('${path.resolve(
+          __dirname,
+          '../dist/index.cjs'
+        )}').loadConfig().then((config) => console.log(JSON.stringify(config)))"`,
+        { cwd: tempDir }
+      )
+
+      expect(JSON.parse(output.toString())).toEqual({ errorFormat: 'tsc' })
+    })
+  })
+
+  describe('--project option', () => {
+    afterEach(() => {
+      fs.rmSync(path.resolve(tempDir, 'tsconfig.json'))
+      fs.rmSync(path.resolve(tempDir, 'index.ts'))
+    })
+
+    it(
+      'fails when the tsconfig.json cannot be read',
+      async () => {
+        writeProject(`const value: string = 1\n`)
+        await cli('save --project tsconfig.json', '')
+        const saveOutput = await cli('save --project missing.json', '')
+        const checkOutput = await cli('check --project missing.json', '')
+
+        expect(saveOutput.code).toBe(2)
+        expect(saveOutput.stderr).toMatch(/error TS5083/)
+        expect(checkOutput.code).toBe(2)
+        expect(checkOutput.stderr).toMatch(/error TS5083/)
+      },
+      compilerTestTimeout
+    )
+
+    it(
+      'saves errors reported by the TypeScript compiler',
+      async () => {
+        writeProject(`const value: string = 1\n`)
+        const saveOutput = await cli('save --project tsconfig.json', '')
+        expect(saveOutput.code).toBe(0)
+        expect(fs.readFileSync(getBaselinePath(), 'utf-8'))
+          .toMatchInlineSnapshot(`
+            "{
+              \\"meta\\": {
+                \\"baselineFileVersion\\": 1,
+                \\"ignoreMessages\\": false,
+                \\"rootDir\\": \\".\\"
+              },
+              \\"errors\\": {
+                \\"4271c331491e83afe026a8f71a6587b2c3dfa092\\": {
+                  \\"file\\": \\"index.ts\\",
+                  \\"code\\": \\"TS2322\\",
+                  \\"count\\": 1,
+                  \\"message\\": \\"Type 'number' is not assignable to type 'string'.\\"
+                }
+              }
+            }"
+          `)
+      },
+      compilerTestTimeout
+    )
+
+    it(
+      'accepts a directory that contains a tsconfig.json',
+      async () => {
+        writeProject(`const value: string = 1\n`)
+        await cli('save --project tsconfig.json', '')
+        const checkOutput = await cli('check --project .', '')
+
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 1 error already in baseline./
+        )
+      },
+      compilerTestTimeout
+    )
+
+    it(
+      'matches a baseline saved from piped compiler output',
+      async () => {
+        writeProject(`const value: string = 1\n`)
+        await cli(
+          'save',
+          'index.ts(1,7): error TS2322: ' +
+            "Type 'number' is not assignable to type 'string'."
+        )
+        const checkOutput = await cli('check --project tsconfig.json', '')
+        expect(checkOutput.code).toBe(0)
+        expect(checkOutput.stderr).toMatch(
+          /0 new errors found. 1 error already in baseline./
+        )
+      },
+      compilerTestTimeout
+    )
+
+    it(
+      'reports new errors found by the TypeScript compiler',
+      async () => {
+        writeProject(`const value: string = 1\n`)
+        await cli('save --project tsconfig.json', '')
+        writeProject(`const value: string = 1\nconst other: number = 'a'\n`)
+        const checkOutput = await cli('check --project tsconfig.json', '')
+        expect(checkOutput.code).toBe(1)
+        expect(checkOutput.stderr).toMatch(/index.ts\(2,7\)/)
+        expect(checkOutput.stderr).toMatch(
+          /1 new error found. 1 error already in baseline./
+        )
+      },
+      compilerTestTimeout
+    )
+  })
 })
@@ -11,6 +11,24 @@ import {
   getBaselineFileVersion,
   getErrorSummaryMap,
   getNewErrors,
+  getRatchetedErrors,
+  getBaselinedErrors,
+  remapRenamedFiles,
+  getErrorsInChangedFiles,
+  normalizeFilePath,
+  normalizeErrorMessage,
+  matchesGlob,
+  getExceededErrorBudgets,
+  createHistorySnapshot,
+  appendHistorySnapshot,
+  readHistoryFile,
+  getHistoryFilePath,
+  toTrendTable,
+  toTrendCsv,
+  getBaselineStats,
+  toStatsMarkdown,
+  toHtmlReport,
+  normalizeErrorSummaryPaths,
   getTotalErrorsCount,
   toHumanReadableText,
   toGitLabOutputFormat,
@@ -18,7 +36,19 @@ import {
   SpecificError,
   SpecificErrorsMap,
   ErrorSummaryMap,
-  GitLabErrorFormat
+  GitLabErrorFormat,
+  SarifLog,
+  toSarifOutputFormat,
+  toGitHubOutputFormat,
+  toJUnitOutputFormat,
+  toCheckstyleOutputFormat,
+  toTscOutputFormat,
+  toMarkdownOutputFormat,
+  getGitHubFileUrlPrefix,
+  getInvalidCompilerOutputReason,
+  GLOBAL_ERRORS_FILE,
+  isGlobalError,
+  ErrorSeverity
 } from '../src'
 
 describe('Utility Functions', () => {
@@ -79,6 +109,176 @@ info Visit https://yarnpkg.com/en/docs/cli/run for documentation about this comm
     expect(errorTs1128.count).toBe(3)
   })
 
+  it('parseTypeScriptErrors captures the message chain of elaborated errors', () => {
+    const errorLog = `$ tsc
+src/util.ts(12,7): error TS2322: Type '{ a: number; }' is not assignable to type 'Foo'.
+  Property 'b' is missing in type '{ a: number; }' but required in type 'Foo'.
+src/util.ts(20,7): error TS2322: Type '{ a: number; }' is not assignable to type 'Foo'.
+  Types of property 'a' are incompatible.
+    Type 'number' is not assignable to type 'string'.
+info Visit https://yarnpkg.com/en/docs/cli/run for documentation about this command.`
+
+    const { specificErrorsMap, errorSummaryMap } = parseTypeScriptErrors(
+      errorLog,
+      { ignoreMessages: false }
+    )
+
+    const [firstError, secondError] = specificErrorsMap.get('src/util.ts') ?? []
+    expect(firstError.message).toBe(
+      "Type '{ a: number; }' is not assignable to type 'Foo'."
+    )
+    expect(firstError.messageChain).toEqual([
+      "  Property 'b' is missing in type '{ a: number; }' but required in type 'Foo'."
+    ])
+    expect(secondError.messageChain).toEqual([
+      "  Types of property 'a' are incompatible.",
+      "    Type 'number' is not assignable to type 'string'."
+    ])
+
+    // Only the head message is hashed by default
+    expect(errorSummaryMap.size).toBe(1)
+    expect(Array.from(errorSummaryMap.values())[0].count).toBe(2)
+
+    const withMessageChain = parseTypeScriptErrors(errorLog, {
+      ignoreMessages: false,
+      includeMessageChain: true
+    })
+    expect(withMessageChain.errorSummaryMap.size).toBe(2)
+    expect(
+      Array.from(withMessageChain.errorSummaryMap.values())[1].message
+    ).toBe(
+      [
+        "Type '{ a: number; }' is not assignable to type 'Foo'.",
+        "  Types of property 'a' are incompatible.",
+        "    Type 'number' is not assignable to type 'string'."
+      ].join('\n')
+    )
+  })
+
+  it('parseTypeScriptErrors parses pretty output the same as plain output', () => {
+    const prettyErrorLog = [
+      "\u001b[96mindex.ts\u001b[0m:\u001b[93m2\u001b[0m:\u001b[93m7\u001b[0m - \u001b[91merror\u001b[0m\u001b[90m TS2322: \u001b[0mType 'number' is not assignable to type 'string'.",
+      '',
+      '\u001b[7m2\u001b[0m const value: string = 1',
+      '\u001b[7m \u001b[0m \u001b[91m      ~~~~~\u001b[0m',
+      '',
+      "\u001b[96mindex.ts\u001b[0m:\u001b[93m4\u001b[0m:\u001b[93m7\u001b[0m - \u001b[91merror\u001b[0m\u001b[90m TS2322: \u001b[0mType '{ a: number; b: number; }' is not assignable to type 'Foo'.",
+      "  Types of property 'a' are incompatible.",
+      "    Type 'number' is not assignable to type 'string'.",
+      '',
+      '\u001b[7m4\u001b[0m const foo: Foo = x',
+      '\u001b[7m \u001b[0m \u001b[91m      ~~~\u001b[0m',
+      '',
+      '',
+      'Found 2 errors in the same file, starting at: index.ts\u001b[90m:2\u001b[0m',
+      ''
+    ].join('\n')
+
+    const plainErrorLog = `index.ts(2,7): error TS2322: Type 'number' is not assignable to type 'string'.
+index.ts(4,7): error TS2322: Type '{ a: number; b: number; }' is not assignable to type 'Foo'.
+  Types of property 'a' are incompatible.
+    Type 'number' is not assignable to type 'string'.`
+
+    const errorOptions = { ignoreMessages: false, includeMessageChain: true }
+    const prettyResult = parseTypeScriptErrors(prettyErrorLog, errorOptions)
+    const plainResult = parseTypeScriptErrors(plainErrorLog, errorOptions)
+
+    expect(prettyResult.specificErrorsMap.get('index.ts')).toHaveLength(2)
+    expect(prettyResult).toEqual(plainResult)
+  })
+
+  it('parseTypeScriptErrors groups errors without a file location as global errors', () => {
+    const errorLog = `$ tsc
+error TS2688: Cannot find type definition file for 'jest'.
+  The file is in the program because:
+    Entry point of type library 'jest' specified in compilerOptions
+src/util.ts(35,7): error TS1005: ',' expected.`
+
+    const { specificErrorsMap, errorSummaryMap } = parseTypeScriptErrors(
+      errorLog,
+      { ignoreMessages: false }
+    )
+
+    expect(specificErrorsMap.get(GLOBAL_ERRORS_FILE)).toEqual([
+      {
+        file: GLOBAL_ERRORS_FILE,
+        code: 'TS2688',
+        message: "Cannot find type definition file for 'jest'.",
+        messageChain: [
+          '  The file is in the program because:',
+          "    Entry point of type library 'jest' specified in compilerOptions"
+        ],
+        line: 0,
+        column: 0
+      }
+    ])
+    expect(errorSummaryMap.size).toBe(2)
+    expect(
+      Array.from(errorSummaryMap.values()).filter((errorSummary) =>
+        isGlobalError(errorSummary)
+      )
+    ).toHaveLength(1)
+  })
+
+  describe('getInvalidCompilerOutputReason', () => {
+    const getReason = (errorLog: string, allowEmptyInput = false) =>
+      getInvalidCompilerOutputReason(errorLog, { allowEmptyInput })
+
+    it('accepts compiler output with errors', () => {
+      expect(
+        getReason(`yarn run v1.22.19
+$ tsc
+src/util.ts(35,7): error TS1005: ',' expected.
+error Command failed with exit code 2.`)
+      ).toBeUndefined()
+    })
+
+    it('accepts package manager output from a passing type-check', () => {
+      expect(getReason('> tsc-baseline@1.4.0 type-check\n> tsc\n')).toBe(
+        undefined
+      )
+    })
+
+    it('rejects empty input unless it is allowed', () => {
+      expect(getReason(' \n')).toMatch(/No compiler output was received/)
+      expect(getReason('', true)).toBeUndefined()
+    })
+
+    it('rejects output from a crashed compiler', () => {
+      expect(
+        getReason(`Error: Debug Failure. False expression.
+    at Object.assertNever (/app/node_modules/typescript/lib/tsc.js:2243:15)
+    at checkSourceElement (/app/node_modules/typescript/lib/tsc.js:84121:18)`)
+      ).toMatch(/The TypeScript compiler appears to have crashed/)
+    })
+
+    it('rejects configuration errors', () => {
+      expect(
+        getReason("error TS5023: Unknown compiler option 'strictest'.")
+      ).toMatch(/reported configuration errors/)
+    })
+
+    it('accepts errors without a file location', () => {
+      expect(
+        getReason("error TS2688: Cannot find type definition file for 'jest'.")
+      ).toBeUndefined()
+    })
+
+    it('accepts configuration errors when files were type-checked', () => {
+      expect(
+        getReason(`error TS5023: Unknown compiler option 'strictest'.
+src/util.ts(35,7): error TS1005: ',' expected.`)
+      ).toBeUndefined()
+    })
+
+    it('rejects output that did not come from the compiler', () => {
+      expect(
+        getReason(`/app/src/index.ts
+  1:1  error  Unexpected var, use let or const instead  no-var`)
+      ).toMatch(/does not look like output from the TypeScript compiler/)
+    })
+  })
+
   it('writeTypeScriptErrorsToFile correctly writes errors to a file', () => {
     const errorMap = new Map<string, ErrorSummary>()
     errorMap.set('8d4f5b0a6c282e236e4f437a50410d72', {
@@ -272,6 +472,470 @@ info Visit https://yarnpkg.com/en/docs/cli/run for documentation about this comm
     expect(result.size).toBe(0) // No new errors
   })
 
+  it('should lower baseline counts and drop fixed errors when ratcheting', () => {
+    const oldErrors = new Map<string, ErrorSummary>([
+      ['error1', { code: 'error1', file: 'file1.ts', count: 3 }],
+      ['error2', { code: 'error2', file: 'file2.ts', count: 1 }],
+      ['error3', { code: 'error3', file: 'file3.ts', count: 1 }]
+    ])
+
+    const newErrors = new Map<string, ErrorSummary>([
+      ['error1', { code: 'error1', file: 'file1.ts', count: 2 }],
+      ['error3', { code: 'error3', file: 'file3.ts', count: 4 }]
+    ])
+
+    expect(getRatchetedErrors(oldErrors, newErrors)).toEqual(
+      new Map([
+        ['error1', { code: 'error1', file: 'file1.ts', count: 2 }],
+        ['error3', { code: 'error3', file: 'file3.ts', count: 1 }]
+      ])
+    )
+  })
+
+  it('getBaselinedErrors leaves out the new errors', () => {
+    const errorOptions = { ignoreMessages: false, preciseMatching: true }
+    const currentErrors = parseTypeScriptErrors(
+      `file1.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+file1.ts(5,7): error TS2322: Type 'number' is not assignable to type 'string'.
+file2.ts(1,1): error TS1128: Declaration or statement expected.`,
+      errorOptions
+    )
+    const [, movedError, newError] = Array.from(
+      currentErrors.specificErrorsMap.values()
+    ).flat()
+    const newErrors = {
+      errorSummaryMap: new Map(
+        Array.from(currentErrors.errorSummaryMap).map(([key, error]) => [
+          key,
+          { ...error, count: 1 }
+        ])
+      ),
+      specificErrorsMap: new Map([
+        ['file1.ts', [movedError]],
+        ['file2.ts', [newError]]
+      ])
+    }
+
+    const baselinedErrors = getBaselinedErrors(
+      currentErrors,
+      newErrors,
+      errorOptions
+    )
+
+    expect(Array.from(baselinedErrors.errorSummaryMap.values())).toEqual([
+      {
+        code: 'TS2322',
+        file: 'file1.ts',
+        message: "Type 'number' is not assignable to type 'string'.",
+        count: 1
+      }
+    ])
+    expect(
+      Array.from(baselinedErrors.specificErrorsMap.values())
+        .flat()
+        .map(({ line }) => line)
+    ).toEqual([1])
+  })
+
+  it('remaps baseline errors of renamed files', () => {
+    const errorOptions = { ignoreMessages: false }
+    const { errorSummaryMap: oldErrors } = parseTypeScriptErrors(
+      `old.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+new.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+other.ts(1,1): error TS1128: Declaration or statement expected.`,
+      errorOptions
+    )
+    const { errorSummaryMap: newErrors } = parseTypeScriptErrors(
+      `new.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+new.ts(2,7): error TS2322: Type 'number' is not assignable to type 'string'.
+other.ts(1,1): error TS1128: Declaration or statement expected.`,
+      errorOptions
+    )
+
+    expect(
+      remapRenamedFiles(
+        oldErrors,
+        new Map([['old.ts', 'new.ts']]),
+        errorOptions
+      )
+    ).toEqual(newErrors)
+  })
+
+  it('limits new errors to changed files and lines', () => {
+    const errorOptions = { ignoreMessages: false, strictZones: ['strict'] }
+    const { errorSummaryMap, specificErrorsMap } = parseTypeScriptErrors(
+      `changed.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+changed.ts(5,7): error TS2322: Type 'number' is not assignable to type 'string'.
+lines.ts(3,1): error TS1128: Declaration or statement expected.
+lines.ts(9,1): error TS1128: Declaration or statement expected.
+unchanged.ts(1,1): error TS1128: Declaration or statement expected.
+strict/unchanged.ts(1,1): error TS1128: Declaration or statement expected.
+error TS2318: Cannot find global type 'Array'.`,
+      errorOptions
+    )
+
+    const changedErrors = getErrorsInChangedFiles(
+      errorSummaryMap,
+      specificErrorsMap,
+      new Map([
+        ['changed.ts', undefined],
+        ['lines.ts', [{ start: 2, end: 4 }]]
+      ]),
+      errorOptions
+    )
+
+    expect(
+      Array.from(changedErrors.errorSummaryMap.values()).map(
+        ({ file, count }) => [file, count]
+      )
+    ).toEqual([
+      ['changed.ts', 2],
+      ['lines.ts', 1],
+      ['strict/unchanged.ts', 1]
+    ])
+    expect(
+      changedErrors.specificErrorsMap.get('lines.ts')?.map(({ line }) => line)
+    ).toEqual([3])
+  })
+
+  it('normalizes file paths relative to the root directory', () => {
+    const rootDir = resolve(process.cwd(), 'packages/app')
+
+    expect(normalizeFilePath('packages/app/src/index.ts', rootDir)).toBe(
+      'src/index.ts'
+    )
+    expect(normalizeFilePath('./packages\\app\\src\\index.ts', rootDir)).toBe(
+      'src/index.ts'
+    )
+    expect(normalizeFilePath(resolve(rootDir, 'src/index.ts'), rootDir)).toBe(
+      'src/index.ts'
+    )
+    expect(normalizeFilePath(GLOBAL_ERRORS_FILE, rootDir)).toBe(
+      GLOBAL_ERRORS_FILE
+    )
+  })
+
+  it('migrates baseline errors saved with unnormalized paths', () => {
+    const errorOptions = { ignoreMessages: false }
+    const message = "Type 'number' is not assignable to type 'string'."
+    const oldErrors = new Map<string, ErrorSummary>([
+      ['error1', { code: 'TS2322', file: './src/util.ts', count: 1, message }],
+      ['error2', { code: 'TS2322', file: 'src\\util.ts', count: 1, message }]
+    ])
+    const { errorSummaryMap: newErrors } = parseTypeScriptErrors(
+      `src/util.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+src/util.ts(2,7): error TS2322: Type 'number' is not assignable to type 'string'.`,
+      errorOptions
+    )
+
+    expect(normalizeErrorSummaryPaths(oldErrors, errorOptions)).toEqual(
+      newErrors
+    )
+  })
+
+  it('matches file paths against globs', () => {
+    expect(matchesGlob('src/new-module/index.ts', ['src/new-module/**'])).toBe(
+      true
+    )
+    expect(matchesGlob('src/new-module/a/b.ts', ['src/*/a/*.ts'])).toBe(true)
+    expect(matchesGlob('src/index.ts', ['src/*/*.ts'])).toBe(false)
+    expect(matchesGlob('node_modules/lib/index.d.ts', ['node_modules'])).toBe(
+      true
+    )
+    expect(matchesGlob('src/generated/api.ts', ['**/generated/**'])).toBe(true)
+    expect(matchesGlob('src/api.gen.ts', ['**/*.{gen,generated}.ts'])).toBe(
+      true
+    )
+    expect(matchesGlob('src/api.ts', ['./src/api.?s'])).toBe(true)
+    expect(matchesGlob('src/apits', ['src/api.ts'])).toBe(false)
+  })
+
+  it('leaves out errors in files that are excluded or not included', () => {
+    const { errorSummaryMap } = parseTypeScriptErrors(
+      `src/index.ts(1,1): error TS1128: Declaration or statement expected.
+src/generated/api.ts(1,1): error TS1128: Declaration or statement expected.
+legacy/index.ts(1,1): error TS1128: Declaration or statement expected.
+error TS2688: Cannot find type definition file for 'node'.`,
+      { ignoreMessages: false, include: ['src'], exclude: ['**/generated'] }
+    )
+
+    expect(
+      Array.from(errorSummaryMap.values()).map((error) => error.file)
+    ).toEqual(['src/index.ts', GLOBAL_ERRORS_FILE])
+  })
+
+  it('reports the error budgets that were exceeded', () => {
+    const errorOptions = { ignoreMessages: false }
+    const { errorSummaryMap: newErrors } = parseTypeScriptErrors(
+      `src/legacy/a.ts(1,1): error TS2322: Type 'number' is not assignable to type 'string'.
+src/legacy/a.ts(2,1): error TS2322: Type 'number' is not assignable to type 'string'.
+src/b.ts(1,1): error TS7006: Parameter 'x' implicitly has an 'any' type.`,
+      errorOptions
+    )
+
+    expect(getExceededErrorBudgets(newErrors, newErrors, {})).toEqual([
+      { count: 3, description: 'new errors', kind: 'new', limit: 0 }
+    ])
+    expect(
+      getExceededErrorBudgets(newErrors, newErrors, {
+        maxNewErrors: 3,
+        maxNewErrorsPerCode: { TS2322: 1, TS7006: 1 },
+        maxNewErrorsPerDirectory: { 'src/legacy': 1 },
+        maxTotalErrors: 2
+      })
+    ).toEqual([
+      { count: 2, description: 'new TS2322 errors', kind: 'new', limit: 1 },
+      {
+        count: 2,
+        description: 'new errors in src/legacy',
+        kind: 'new',
+        limit: 1
+      },
+      { count: 3, description: 'errors in total', kind: 'total', limit: 2 }
+    ])
+    expect(
+      getExceededErrorBudgets(newErrors, newErrors, {
+        maxNewErrorsPerCode: { TS2322: 2 }
+      })
+    ).toEqual([
+      {
+        count: 1,
+        description: 'new error outside of the budgets per code and directory',
+        kind: 'new',
+        limit: 0
+      }
+    ])
+    expect(
+      getExceededErrorBudgets(newErrors, newErrors, {
+        maxNewErrorsPerCode: { TS2322: 2 },
+        maxNewErrorsPerDirectory: { src: 5 }
+      })
+    ).toEqual([])
+  })
+
+  describe('history', () => {
+    const { errorSummaryMap } = parseTypeScriptErrors(
+      `src/a.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+src/a.ts(2,7): error TS2322: Type 'number' is not assignable to type 'string'.
+src/legacy/b.ts(1,1): error TS7006: Parameter 'x' implicitly has an 'any' type.
+index.ts(1,1): error TS1128: Declaration or statement expected.`,
+      { ignoreMessages: false }
+    )
+
+    it('names the history file after the baseline file', () => {
+      expect(getHistoryFilePath('/project/.tsc-baseline.json')).toBe(
+        '/project/.tsc-baseline.history.jsonl'
+      )
+      expect(getHistoryFilePath('/project/baseline')).toBe(
+        '/project/baseline.history.jsonl'
+      )
+    })
+
+    it('counts errors by code and by directory', () => {
+      expect(
+        createHistorySnapshot(
+          errorSummaryMap,
+          'abc1234',
+          new Date('2024-01-02T03:04:05.000Z')
+        )
+      ).toEqual({
+        timestamp: '2024-01-02T03:04:05.000Z',
+        commit: 'abc1234',
+        totalErrors: 4,
+        errorsByCode: { TS1128: 1, TS2322: 2, TS7006: 1 },
+        errorsByDirectory: { '.': 1, src: 2, 'src/legacy': 1 }
+      })
+    })
+
+    it('appends snapshots to the history file', () => {
+      const historyFilePath = resolve(tempDir, 'history.jsonl')
+      const first = createHistorySnapshot(
+        errorSummaryMap,
+        undefined,
+        new Date('2024-01-01T00:00:00.000Z')
+      )
+      const second = createHistorySnapshot(
+        new Map(),
+        'abcdef0123456789',
+        new Date('2024-02-01T12:30:00.000Z')
+      )
+
+      expect(readHistoryFile(historyFilePath)).toEqual([])
+      appendHistorySnapshot(historyFilePath, first)
+      appendHistorySnapshot(historyFilePath, second)
+      const snapshots = readHistoryFile(historyFilePath)
+
+      expect(snapshots).toEqual([first, second])
+      expect(toTrendTable(snapshots)).toBe(
+        [
+          'Date              Commit   Errors  Change',
+          '2024-01-01 00:00  -             4       -',
+          '2024-02-01 12:30  abcdef0       0      -4'
+        ].join('\n')
+      )
+      expect(toTrendCsv(snapshots)).toBe(
+        [
+          'timestamp,commit,totalErrors,TS1128,TS2322,TS7006',
+          '2024-01-01T00:00:00.000Z,,4,1,2,1',
+          '2024-02-01T12:30:00.000Z,abcdef0123456789,0,0,0,0'
+        ].join('\n')
+      )
+    })
+  })
+
+  describe('baseline stats', () => {
+    const { errorSummaryMap } = parseTypeScriptErrors(
+      `src/a.ts(1,7): error TS2322: Type 'number' is not assignable to type 'string'.
+src/a.ts(2,7): error TS2322: Type 'number' is not assignable to type 'string'.
+src/legacy/b.ts(1,1): error TS7006: Parameter 'x' implicitly has an 'any' type.
+src/legacy/b.ts(2,1): error TS2322: Type 'A | B' is not assignable to type 'C'.
+index.ts(1,1): error TS1128: Declaration or statement expected.`,
+      { ignoreMessages: false }
+    )
+
+    it('counts the errors by file, code, message and directory', () => {
+      expect(getBaselineStats(errorSummaryMap, 2)).toEqual({
+        totalErrors: 5,
+        totalFiles: 3,
+        files: [
+          { name: 'src/a.ts', count: 2 },
+          { name: 'src/legacy/b.ts', count: 2 }
+        ],
+        codes: [
+          { name: 'TS2322', count: 3 },
+          { name: 'TS1128', count: 1 }
+        ],
+        messages: [
+          {
+            name: "TS2322: Type 'number' is not assignable to type 'string'.",
+            count: 2
+          },
+          { name: 'TS1128: Declaration or statement expected.', count: 1 }
+        ],
+        directories: [
+          { name: 'src', count: 4 },
+          { name: 'src/legacy', count: 2 }
+        ]
+      })
+    })
+
+    it('formats the stats as Markdown tables', () => {
+      expect(toStatsMarkdown(getBaselineStats(errorSummaryMap, 1))).toBe(
+        [
+          '## TypeScript error baseline',
+          '',
+          '5 errors in 3 files.',
+          '',
+          '### Files',
+          '',
+          '| File | Errors |',
+          '| --- | ---: |',
+          '| src/a.ts | 2 |',
+          '',
+          '### Error codes',
+          '',
+          '| Code | Errors |',
+          '| --- | ---: |',
+          '| TS2322 | 3 |',
+          '',
+          '### Messages',
+          '',
+          '| Message | Errors |',
+          '| --- | ---: |',
+          "| TS2322: Type 'number' is not assignable to type 'string'. | 2 |",
+          '',
+          '### Directories',
+          '',
+          '| Directory | Errors |',
+          '| --- | ---: |',
+          '| src | 4 |'
+        ].join('\n')
+      )
+    })
+
+    it('escapes generics and pipes in Markdown stats', () => {
+      const { errorSummaryMap } = parseTypeScriptErrors(
+        `src/a.ts(1,7): error TS2322: Type 'A | B' is not assignable to type 'Array<string>'.`,
+        { ignoreMessages: false }
+      )
+
+      expect(toStatsMarkdown(getBaselineStats(errorSummaryMap))).toContain(
+        "| TS2322: Type 'A \\| B' is not assignable to type 'Array&lt;string&gt;'. | 1 |"
+      )
+    })
+  })
+
+  it('writes an HTML report with source snippets', () => {
+    fs.writeFileSync(
+      resolve(tempDir, 'report.ts'),
+      ['const a = 1', 'const b = 2', 'const c: string = 3', 'const d = 4'].join(
+        '\n'
+      )
+    )
+    const errorOptions = { ignoreMessages: false, rootDir: resolve(tempDir) }
+    const { errorSummaryMap, specificErrorsMap } = parseTypeScriptErrors(
+      `${tempDir}/report.ts(3,7): error TS2322: Type 'number' is not assignable to type '<string>'.`,
+      errorOptions
+    )
+
+    const html = toHtmlReport(
+      'Report',
+      [
+        { title: 'New errors', errorSummaryMap, specificErrorsMap },
+        { title: 'Fixed errors', errorSummaryMap: new Map() }
+      ],
+      errorOptions
+    )
+
+    expect(html).toContain('<p>New errors: 1 &middot; Fixed errors: 0</p>')
+    expect(html).toContain(
+      '<td>Type &apos;number&apos; is not assignable to type &apos;&lt;string&gt;&apos;.</td>'
+    )
+    expect(html).toContain(
+      '<figcaption>report.ts(3,7)</figcaption><pre>1 | const a = 1\n2 | const b = 2\n<mark>3 | const c: string = 3</mark>\n4 | const d = 4</pre>'
+    )
+    expect(html).toContain('<h2>Fixed errors</h2>\n<p>None.</p>')
+  })
+
+  describe('normalizeErrorMessage', () => {
+    it('removes volatile parts of messages with the built-in normalizers', () => {
+      const errorOptions = { ignoreMessages: false, normalizeMessages: true }
+
+      expect(
+        normalizeErrorMessage(
+          `Type 'import("/home/ci/project/node_modules/.pnpm/zod@3.22.4/node_modules/zod/lib/types").ZodString' is not assignable to type 'import("/home/ci/project/src/schema").Schema'.`,
+          errorOptions
+        )
+      ).toBe(
+        `Type 'import("zod/lib/types").ZodString' is not assignable to type 'import("...").Schema'.`
+      )
+      expect(
+        normalizeErrorMessage(
+          "Type '{ a: { b: string; }; ... 12 more ...; z: number; }' is missing the following properties from type 'Options': __@brand@1234",
+          errorOptions
+        )
+      ).toBe(
+        "Type '{ ... }' is missing the following properties from type 'Options': __@brand"
+      )
+    })
+
+    it('applies user replacements after the built-in normalizers', () => {
+      expect(
+        normalizeErrorMessage("Argument of type '42' is not assignable.", {
+          ignoreMessages: false,
+          messageReplacements: [{ pattern: "'\\d+'", replacement: 'number' }]
+        })
+      ).toBe('Argument of type number is not assignable.')
+    })
+
+    it('leaves messages unchanged by default', () => {
+      const message = "Type '{ a: string; }' is not assignable to type 'B'."
+      expect(normalizeErrorMessage(message, { ignoreMessages: false })).toBe(
+        message
+      )
+    })
+  })
+
   it('counts all errors properly', () => {
     const newErrors = new Map<string, ErrorSummary>([
       [
@@ -488,6 +1152,426 @@ file2.ts(5,6)
     ])
   })
 
+  it('validate sarif error-format', () => {
+    const specificErrorsMap: SpecificErrorsMap = new Map([
+      [
+        'file1.ts',
+        [
+          {
+            code: 'TS1005',
+            file: 'file1.ts',
+            message: "',' expected.",
+            line: 1,
+            column: 2
+          }
+        ]
+      ],
+      [
+        GLOBAL_ERRORS_FILE,
+        [
+          {
+            code: 'TS2688',
+            file: GLOBAL_ERRORS_FILE,
+            message: "Cannot find type definition file for 'jest'.",
+            line: 0,
+            column: 0
+          }
+        ]
+      ]
+    ])
+
+    const errorSummaryMap: ErrorSummaryMap = new Map([
+      [
+        'f3f953ce4418dad07eb9aa5df5d846ffdf8f4b4d',
+        {
+          code: 'TS1005',
+          file: 'file1.ts',
+          message: "',' expected.",
+          count: 1
+        }
+      ],
+      [
+        '08f2382addc40a426eec5ac4f57c144143460680',
+        {
+          code: 'TS2688',
+          file: GLOBAL_ERRORS_FILE,
+          message: "Cannot find type definition file for 'jest'.",
+          count: 1
+        }
+      ]
+    ])
+
+    const result: SarifLog = JSON.parse(
+      toSarifOutputFormat(errorSummaryMap, specificErrorsMap, {
+        ignoreMessages: false
+      })
+    )
+
+    expect(result.version).toBe('2.1.0')
+    expect(result.runs[0].tool.driver.rules).toEqual([
+      { id: 'TS1005', shortDescription: { text: 'TypeScript error TS1005' } },
+      { id: 'TS2688', shortDescription: { text: 'TypeScript error TS2688' } }
+    ])
+    expect(result.runs[0].results).toEqual([
+      {
+        ruleId: 'TS1005',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: "',' expected." },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'file1.ts' },
+              region: { startLine: 1, startColumn: 2 }
+            }
+          }
+        ],
+        partialFingerprints: {
+          'tscBaselineHash/v1': 'f3f953ce4418dad07eb9aa5df5d846ffdf8f4b4d-0'
+        }
+      },
+      {
+        ruleId: 'TS2688',
+        ruleIndex: 1,
+        level: 'error',
+        message: { text: "Cannot find type definition file for 'jest'." },
+        partialFingerprints: {
+          'tscBaselineHash/v1': '08f2382addc40a426eec5ac4f57c144143460680-0'
+        }
+      }
+    ])
+  })
+
+  it('validate github error-format', () => {
+    const specificErrorsMap: SpecificErrorsMap = new Map([
+      [
+        'src/file1.ts',
+        [
+          {
+            code: 'TS2322',
+            file: 'src/file1.ts',
+            message: "Type '{ a: number; }' is not assignable to type 'Foo'.",
+            messageChain: [
+              "  Property 'b' is missing in type '{ a: number; }'."
+            ],
+            line: 1,
+            column: 2
+          }
+        ]
+      ],
+      [
+        GLOBAL_ERRORS_FILE,
+        [
+          {
+            code: 'TS2688',
+            file: GLOBAL_ERRORS_FILE,
+            message: "Cannot find type definition file for 'jest'.",
+            line: 0,
+            column: 0
+          }
+        ]
+      ]
+    ])
+
+    const errorSummaryMap: ErrorSummaryMap = new Map([
+      [
+        'f3f953ce4418dad07eb9aa5df5d846ffdf8f4b4d',
+        {
+          code: 'TS2322',
+          file: 'src/file1.ts',
+          message: "Type '{ a: number; }' is not assignable to type 'Foo'.",
+          count: 1
+        }
+      ],
+      [
+        '08f2382addc40a426eec5ac4f57c144143460680',
+        {
+          code: 'TS2688',
+          file: GLOBAL_ERRORS_FILE,
+          message: "Cannot find type definition file for 'jest'.",
+          count: 1
+        }
+      ]
+    ])
+
+    const result = toGitHubOutputFormat(errorSummaryMap, specificErrorsMap, {
+      ignoreMessages: false
+    })
+
+    expect(result).toBe(
+      [
+        "::error file=src/file1.ts,line=1,col=2,title=TS2322::Type '{ a: number; }' is not assignable to type 'Foo'.%0A  Property 'b' is missing in type '{ a: number; }'.",
+        "::error title=TS2688::Cannot find type definition file for 'jest'."
+      ].join('\n')
+    )
+
+    const fixedErrorSummaryMap: ErrorSummaryMap = new Map([
+      [
+        'c1b4ab07321ca58aac93307f3be23bc0a8592ee7',
+        {
+          code: 'TS1005',
+          file: 'src/file2.ts',
+          message: "',' expected.",
+          count: 2
+        }
+      ]
+    ])
+    expect(
+      toGitHubOutputFormat(
+        new Map(),
+        specificErrorsMap,
+        { ignoreMessages: false },
+        fixedErrorSummaryMap
+      )
+    ).toBe(
+      "::notice file=src/file2.ts,title=Fixed TS1005::2 errors fixed: ',' expected."
+    )
+  })
+
+  it('validate junit error-format', () => {
+    const specificErrorsMap: SpecificErrorsMap = new Map([
+      [
+        'file1.ts',
+        [
+          {
+            code: 'TS2322',
+            file: 'file1.ts',
+            message: "Type '<T>() => T' is not assignable to type 'string'.",
+            line: 1,
+            column: 2
+          },
+          {
+            code: 'TS2322',
+            file: 'file1.ts',
+            message: "Type '<T>() => T' is not assignable to type 'string'.",
+            line: 3,
+            column: 4
+          }
+        ]
+      ]
+    ])
+
+    const errorSummaryMap: ErrorSummaryMap = new Map([
+      [
+        'f3f953ce4418dad07eb9aa5df5d846ffdf8f4b4d',
+        {
+          code: 'TS2322',
+          file: 'file1.ts',
+          message: "Type '<T>() => T' is not assignable to type 'string'.",
+          count: 2
+        }
+      ]
+    ])
+
+    const checkedErrorSummaryMap: ErrorSummaryMap = new Map([
+      ...errorSummaryMap,
+      [
+        '08f2382addc40a426eec5ac4f57c144143460680',
+        {
+          code: 'TS1005',
+          file: 'file2.ts',
+          message: "',' expected.",
+          count: 1
+        }
+      ]
+    ])
+
+    const result = toJUnitOutputFormat(
+      errorSummaryMap,
+      specificErrorsMap,
+      { ignoreMessages: false },
+      checkedErrorSummaryMap
+    )
+
+    expect(result).toMatchInlineSnapshot(`
+      "<?xml version=\\"1.0\\" encoding=\\"UTF-8\\"?>
+      <testsuites name=\\"tsc-baseline\\" tests=\\"2\\" failures=\\"1\\">
+        <testsuite name=\\"file1.ts\\" tests=\\"1\\" failures=\\"1\\">
+          <testcase classname=\\"file1.ts\\" name=\\"TS2322: Type &apos;&lt;T&gt;() =&gt; T&apos; is not assignable to type &apos;string&apos;.\\">
+            <failure message=\\"TS2322: Type &apos;&lt;T&gt;() =&gt; T&apos; is not assignable to type &apos;string&apos;.\\" type=\\"TS2322\\">Hash: f3f953ce4418dad07eb9aa5df5d846ffdf8f4b4d
+      Count of new errors: 2
+      file1.ts(1,2)
+      file1.ts(3,4)</failure>
+          </testcase>
+        </testsuite>
+        <testsuite name=\\"file2.ts\\" tests=\\"1\\" failures=\\"0\\">
+          <testcase classname=\\"file2.ts\\" name=\\"No new TypeScript errors\\" />
+        </testsuite>
+      </testsuites>"
+    `)
+  })
+
+  it('validate checkstyle error-format', () => {
+    const { specificErrorsMap, errorSummaryMap } = parseTypeScriptErrors(
+      `src/util.ts(35,7): error TS1005: ',' expected.
+src/util.ts(40,3): error TS2322: Type '"a"' is not assignable to type 'number'.
+error TS2688: Cannot find type definition file for 'jest'.`,
+      { ignoreMessages: false }
+    )
+
+    expect(
+      toCheckstyleOutputFormat(errorSummaryMap, specificErrorsMap, {
+        ignoreMessages: false
+      })
+    ).toMatchInlineSnapshot(`
+      "<?xml version=\\"1.0\\" encoding=\\"UTF-8\\"?>
+      <checkstyle version=\\"4.3\\">
+        <file name=\\"src/util.ts\\">
+          <error line=\\"35\\" column=\\"7\\" severity=\\"error\\" message=\\"&apos;,&apos; expected.\\" source=\\"TS1005\\" />
+          <error line=\\"40\\" column=\\"3\\" severity=\\"error\\" message=\\"Type &apos;&quot;a&quot;&apos; is not assignable to type &apos;number&apos;.\\" source=\\"TS2322\\" />
+        </file>
+        <file name=\\"&lt;global&gt;\\">
+          <error severity=\\"error\\" message=\\"Cannot find type definition file for &apos;jest&apos;.\\" source=\\"TS2688\\" />
+        </file>
+      </checkstyle>"
+    `)
+  })
+
+  it('reports warnings by the severity rules in sarif, github and checkstyle error-formats', () => {
+    const errorOptions = { ignoreMessages: false }
+    const severityRules = { TS2322: ErrorSeverity.WARNING }
+    const { specificErrorsMap, errorSummaryMap } = parseTypeScriptErrors(
+      `src/util.ts(35,7): error TS1005: ',' expected.
+src/util.ts(40,3): error TS2322: Type '"a"' is not assignable to type 'number'.`,
+      errorOptions
+    )
+
+    const sarifLog: SarifLog = JSON.parse(
+      toSarifOutputFormat(
+        errorSummaryMap,
+        specificErrorsMap,
+        errorOptions,
+        new Map(),
+        severityRules
+      )
+    )
+    expect(
+      sarifLog.runs[0].results.map(({ ruleId, level }) => [ruleId, level])
+    ).toEqual([
+      ['TS1005', 'error'],
+      ['TS2322', 'warning']
+    ])
+
+    expect(
+      toGitHubOutputFormat(
+        errorSummaryMap,
+        specificErrorsMap,
+        errorOptions,
+        new Map(),
+        severityRules
+      )
+        .split('\n')
+        .map((line) => line.split(' ')[0])
+    ).toEqual(['::error', '::warning'])
+
+    expect(
+      toCheckstyleOutputFormat(
+        errorSummaryMap,
+        specificErrorsMap,
+        errorOptions,
+        severityRules
+      ).match(/severity="\w+"/g)
+    ).toEqual(['severity="error"', 'severity="warning"'])
+  })
+
+  it('validate tsc error-format', () => {
+    const errorLog = `src/util.ts(35,7): error TS1005: ',' expected.
+src/util.ts(40,3): error TS2322: Type '{ a: number; }' is not assignable to type 'Foo'.
+  Property 'b' is missing in type '{ a: number; }' but required in type 'Foo'.
+error TS2688: Cannot find type definition file for 'jest'.`
+    const { specificErrorsMap, errorSummaryMap } = parseTypeScriptErrors(
+      errorLog,
+      { ignoreMessages: false }
+    )
+
+    expect(
+      toTscOutputFormat(errorSummaryMap, specificErrorsMap, {
+        ignoreMessages: false
+      })
+    ).toBe(errorLog)
+  })
+
+  it('validate markdown error-format', () => {
+    const errorOptions = { ignoreMessages: false }
+    const { errorSummaryMap: fixedErrors } = parseTypeScriptErrors(
+      `src/old.ts(1,1): error TS1128: Declaration or statement expected.`,
+      errorOptions
+    )
+    const { specificErrorsMap, errorSummaryMap } = parseTypeScriptErrors(
+      `src/util.ts(35,7): error TS1005: ',' expected.
+src/util.ts(40,3): error TS2322: Type 'A | B' is not assignable to type 'Array<string>'.
+src/cli.ts(2,3): error TS2322: Type 'number' is not assignable to type 'string'.
+error TS2688: Cannot find type definition file for 'jest'.`,
+      errorOptions
+    )
+
+    expect(
+      toMarkdownOutputFormat(
+        errorSummaryMap,
+        specificErrorsMap,
+        errorOptions,
+        fixedErrors,
+        10,
+        'https://github.com/owner/repo/blob/abc/'
+      )
+    ).toMatchInlineSnapshot(`
+      "### TypeScript errors: 4 new, 1 fixed
+
+      | New | Fixed | Baseline | Net |
+      | --- | --- | --- | --- |
+      | 4 | 1 | 10 | +3 |
+
+      <details open>
+      <summary>4 errors not in the baseline</summary>
+
+      | Location | Code | Message |
+      | --- | --- | --- |
+      | [src/util.ts:35:7](https://github.com/owner/repo/blob/abc/src/util.ts#L35) | TS1005 | ',' expected. |
+      | [src/util.ts:40:3](https://github.com/owner/repo/blob/abc/src/util.ts#L40) | TS2322 | Type 'A \\\\| B' is not assignable to type 'Array&lt;string&gt;'. |
+      | [src/cli.ts:2:3](https://github.com/owner/repo/blob/abc/src/cli.ts#L2) | TS2322 | Type 'number' is not assignable to type 'string'. |
+      | &lt;global&gt; | TS2688 | Cannot find type definition file for 'jest'. |
+
+      </details>
+
+      <details>
+      <summary>Top regressions by error code</summary>
+
+      | Code | Errors |
+      | --- | ---: |
+      | TS2322 | 2 |
+      | TS1005 | 1 |
+      | TS2688 | 1 |
+
+      </details>
+
+      <details>
+      <summary>1 error fixed</summary>
+
+      | File | Code | Message | Errors |
+      | --- | --- | --- | ---: |
+      | src/old.ts | TS1128 | Declaration or statement expected. | 1 |
+
+      </details>"
+    `)
+  })
+
+  it('links markdown reports to files on GitHub in GitHub Actions', () => {
+    const env = {
+      GITHUB_REPOSITORY: 'owner/repo',
+      GITHUB_SERVER_URL: 'https://github.com',
+      GITHUB_SHA: 'abc',
+      GITHUB_WORKSPACE: resolve('/workspace')
+    }
+
+    expect(
+      getGitHubFileUrlPrefix(resolve('/workspace/packages/app'), env)
+    ).toBe('https://github.com/owner/repo/blob/abc/packages/app/')
+    expect(getGitHubFileUrlPrefix(resolve('/workspace'), env)).toBe(
+      'https://github.com/owner/repo/blob/abc/'
+    )
+    expect(getGitHubFileUrlPrefix(resolve('/workspace'), {})).toBe('')
+  })
+
   it('add hash to baseline', () => {
     const errorMap = new Map<string, ErrorSummary>()
     errorMap.set('8d4f5b0a6c282e236e4f437a50410d72', {